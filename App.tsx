@@ -1,21 +1,48 @@
 import React, { useState, useEffect } from 'react';
-import { Deck, StudyMode, AppSettings, Card } from './types';
+import { Deck, StudyMode, ScheduleMode, AppSettings, Card, SessionSnapshot } from './types';
 import { dbService } from './services/db';
 import { StudySession } from './components/StudySession';
 import { StudyList } from './components/StudyList';
 import { SettingsModal } from './components/SettingsModal';
-import { DEFAULT_SETTINGS } from './constants';
+import { ImportWizard } from './components/ImportWizard';
+import { StatsView } from './components/StatsView';
+import { ExamPlan } from './components/ExamPlan';
+import { LeechesView } from './components/LeechesView';
+import { LasaTrainer } from './components/LasaTrainer';
+import { FilteredDeckBuilder } from './components/FilteredDeckBuilder';
+import { getDeckCounts, getTodayCounts, DeckCounts } from './services/queue';
+import { daysUntilExam } from './services/cram';
+import { describeFilter } from './services/filteredDecks';
+import { DEFAULT_SETTINGS, HAMILTON_DECK_ID, CARDIO_DECK_ID } from './constants';
 
-type View = 'home' | 'study_session' | 'study_list';
+type View = 'home' | 'study_session' | 'study_list' | 'import' | 'stats' | 'exam_plan' | 'leeches' | 'lasa';
+
+// <input type="date"> works in yyyy-mm-dd; exam dates are stored as local midnight
+const toDateInput = (time: number) => {
+  const d = new Date(time);
+  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`;
+};
+
+const fromDateInput = (value: string) => {
+  const [y, m, d] = value.split('-').map(Number);
+  return new Date(y, m - 1, d).getTime();
+};
 
 export default function App() {
   const [view, setView] = useState<View>('home');
   const [decks, setDecks] = useState<Deck[]>([]);
+  const [decksLoaded, setDecksLoaded] = useState(false);
   const [activeDeck, setActiveDeck] = useState<Deck | null>(null);
   const [activeCards, setActiveCards] = useState<Card[]>([]); // For passing to list view
   const [studyMode, setStudyMode] = useState<StudyMode>('mixed');
+  const [scheduleMode, setScheduleMode] = useState<ScheduleMode>('long_term');
   const [showSettings, setShowSettings] = useState(false);
   const [settings, setSettings] = useState<AppSettings>(DEFAULT_SETTINGS);
+  const [deckCounts, setDeckCounts] = useState<Record<string, DeckCounts>>({});
+  const [renaming, setRenaming] = useState<{ deckId: string; name: string } | null>(null);
+  const [editingFilter, setEditingFilter] = useState<Deck | 'new' | null>(null);
+  const [savedSessions, setSavedSessions] = useState<Record<string, SessionSnapshot>>({});
+  const [resumeSession, setResumeSession] = useState(false);
 
   useEffect(() => {
     const init = async () => {
@@ -30,24 +57,87 @@ export default function App() {
   const fetchDecks = async () => {
     const allDecks = await dbService.getDecks();
     setDecks(allDecks);
+    setDecksLoaded(true);
   };
 
+  // Recount whenever we land back on the home screen, since a session changes due/new totals
+  useEffect(() => {
+    if (view !== 'home' || decks.length === 0) return;
+    const loadCounts = async () => {
+      const counts: Record<string, DeckCounts> = {};
+      const today = await getTodayCounts();
+      for (const deck of decks) {
+        counts[deck.id] = await getDeckCounts(deck.id, settings, today);
+      }
+      setDeckCounts(counts);
+      const sessions = await dbService.getSessions(settings.sessionExpiryHours);
+      setSavedSessions(Object.fromEntries(sessions.map(s => [s.deckId, s])));
+    };
+    loadCounts();
+  }, [view, decks, settings]);
+
   useEffect(() => {
     if (settings.darkMode) document.documentElement.classList.add('dark');
     else document.documentElement.classList.remove('dark');
   }, [settings.darkMode]);
 
-  const handleAction = async (deck: Deck, action: 'review' | 'list') => {
+  const handleAction = async (deck: Deck, action: 'review' | 'list' | 'plan') => {
+    if (action === 'review' && scheduleMode === 'exam' && !deck.examDate) {
+        window.alert('Set an exam date for this deck first.');
+        return;
+    }
     setActiveDeck(deck);
+    setResumeSession(false);
     if (action === 'list') {
         const cards = await dbService.getCardsForDeck(deck.id);
         setActiveCards(cards);
         setView('study_list');
+    } else if (action === 'plan') {
+        setView('exam_plan');
     } else {
         setView('study_session');
     }
   };
 
+  // The saved session decides the modes, whatever the selectors say now
+  const handleResume = (deck: Deck, snapshot: SessionSnapshot) => {
+    setStudyMode(snapshot.mode);
+    setScheduleMode(snapshot.scheduleMode);
+    setActiveDeck(deck);
+    setResumeSession(true);
+    setView('study_session');
+  };
+
+  const handleRenameDeck = async () => {
+    if (!renaming) return;
+    const deck = decks.find(d => d.id === renaming.deckId);
+    if (deck && renaming.name.trim()) {
+      await dbService.updateDeck({ ...deck, name: renaming.name.trim() });
+      await fetchDecks();
+    }
+    setRenaming(null);
+  };
+
+  const handleExamDateChange = async (deck: Deck, value: string) => {
+    await dbService.updateDeck({ ...deck, examDate: value ? fromDateInput(value) : undefined });
+    await fetchDecks();
+  };
+
+  const handleDeleteDeck = async (deck: Deck) => {
+    const message = deck.filter
+      ? `Delete the filtered deck "${deck.name}"? Its cards stay in their own decks.`
+      : `Delete "${deck.name}" with all its cards and review history?`;
+    if (!window.confirm(message)) return;
+    await dbService.deleteDeck(deck.id);
+    await fetchDecks();
+  };
+
+  const handleRestored = async () => {
+    setSettings(await dbService.getSettings());
+    await fetchDecks();
+    setShowSettings(false);
+  };
+
   const handleSaveSettings = async (newSettings: AppSettings) => {
     setSettings(newSettings);
     await dbService.saveSettings(newSettings);
@@ -55,7 +145,35 @@ export default function App() {
   };
 
   if (view === 'study_session' && activeDeck) {
-    return <StudySession deck={activeDeck} mode={studyMode} onExit={() => setView('home')} />;
+    return <StudySession deck={activeDeck} mode={studyMode} scheduleMode={scheduleMode} settings={settings} resume={resumeSession} onExit={() => setView('home')} />;
+  }
+
+  if (view === 'import') {
+    return (
+      <div className="min-h-screen bg-gray-50 dark:bg-gray-900 p-4">
+        <ImportWizard 
+            decks={decks} 
+            onComplete={async () => { await fetchDecks(); setView('home'); }} 
+            onCancel={() => setView('home')} 
+        />
+      </div>
+    );
+  }
+
+  if (view === 'stats') {
+    return <StatsView decks={decks} onBack={() => setView('home')} />;
+  }
+
+  if (view === 'lasa') {
+    return <LasaTrainer decks={decks} onBack={() => setView('home')} />;
+  }
+
+  if (view === 'leeches') {
+    return <LeechesView decks={decks} onBack={() => setView('home')} />;
+  }
+
+  if (view === 'exam_plan' && activeDeck) {
+    return <ExamPlan deck={activeDeck} onBack={() => setView('home')} />;
   }
 
   if (view === 'study_list' && activeDeck) {
@@ -71,40 +189,168 @@ export default function App() {
               <span className="text-2xl">💊</span>
               <h1 className="text-xl font-bold tracking-tight">AnkiDrug</h1>
           </div>
-          <button onClick={() => setShowSettings(true)} className="p-2 hover:bg-white/10 rounded-full transition">
-            <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M10.325 4.317c.426-1.756 2.924-1.756 3.35 0a1.724 1.724 0 002.573 1.066c1.543-.94 3.31.826 2.37 2.37a1.724 1.724 0 001.065 2.572c1.756.426 1.756 2.924 0 3.35a1.724 1.724 0 00-1.066 2.573c.94 1.543-.826 3.31-2.37 2.37a1.724 1.724 0 00-2.572 1.065c-.426 1.756-2.924 1.756-3.35 0a1.724 1.724 0 00-2.573-1.066c-1.543.94-3.31-.826-2.37-2.37a1.724 1.724 0 00-1.065-2.572c-1.756-.426-1.756-2.924 0-3.35a1.724 1.724 0 001.066-2.573c-.94-1.543.826-3.31 2.37-2.37.996.608 2.296.07 2.572-1.065z" />
-              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 12a3 3 0 11-6 0 3 3 0 016 0z" />
-            </svg>
-          </button>
+          <div className="flex items-center gap-1">
+            <button onClick={() => setView('stats')} className="p-2 hover:bg-white/10 rounded-full transition" title="Statistics">
+              <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 19v-6a2 2 0 00-2-2H5a2 2 0 00-2 2v6a2 2 0 002 2h2a2 2 0 002-2zm0 0V9a2 2 0 012-2h2a2 2 0 012 2v10m-6 0a2 2 0 002 2h2a2 2 0 002-2m0 0V5a2 2 0 012-2h2a2 2 0 012 2v14a2 2 0 01-2 2h-2a2 2 0 01-2-2z" />
+              </svg>
+            </button>
+            <button onClick={() => setView('lasa')} className="p-2 hover:bg-white/10 rounded-full transition" title="Look-alike / sound-alike names">
+              <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 7h12m0 0l-4-4m4 4l-4 4m0 6H4m0 0l4 4m-4-4l4-4" />
+              </svg>
+            </button>
+            <button onClick={() => setView('leeches')} className="p-2 hover:bg-white/10 rounded-full transition" title="Leeches">
+              <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 9v2m0 4h.01m-6.938 4h13.856c1.54 0 2.502-1.667 1.732-3L13.732 4c-.77-1.333-2.694-1.333-3.464 0L3.34 16c-.77 1.333.192 3 1.732 3z" />
+              </svg>
+            </button>
+            <button onClick={() => setShowSettings(true)} className="p-2 hover:bg-white/10 rounded-full transition" title="Settings">
+              <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M10.325 4.317c.426-1.756 2.924-1.756 3.35 0a1.724 1.724 0 002.573 1.066c1.543-.94 3.31.826 2.37 2.37a1.724 1.724 0 001.065 2.572c1.756.426 1.756 2.924 0 3.35a1.724 1.724 0 00-1.066 2.573c.94 1.543-.826 3.31-2.37 2.37a1.724 1.724 0 00-2.572 1.065c-.426 1.756-2.924 1.756-3.35 0a1.724 1.724 0 00-2.573-1.066c-1.543.94-3.31-.826-2.37-2.37a1.724 1.724 0 00-1.065-2.572c-1.756-.426-1.756-2.924 0-3.35a1.724 1.724 0 001.066-2.573c-.94-1.543.826-3.31 2.37-2.37.996.608 2.296.07 2.572-1.065z" />
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 12a3 3 0 11-6 0 3 3 0 016 0z" />
+              </svg>
+            </button>
+          </div>
         </div>
       </header>
 
       {/* Main Content */}
       <main className="flex-1 max-w-4xl mx-auto w-full p-4">
-        <div className="bg-white dark:bg-gray-800 rounded-2xl p-5 shadow-sm mb-6 flex items-center justify-between">
-            <span className="text-gray-500 dark:text-gray-400 font-bold text-sm uppercase">Flashcard Mode</span>
-            <select 
-                value={studyMode}
-                onChange={(e) => setStudyMode(e.target.value as StudyMode)}
-                className="bg-gray-100 dark:bg-gray-700 border-none rounded-lg px-4 py-2 text-gray-800 dark:text-white font-medium focus:ring-2 focus:ring-blue-500 outline-none"
+        <div className="bg-white dark:bg-gray-800 rounded-2xl p-5 shadow-sm mb-6 space-y-4">
+            <div className="flex items-center justify-between">
+                <span className="text-gray-500 dark:text-gray-400 font-bold text-sm uppercase">Flashcard Mode</span>
+                <select 
+                    value={studyMode}
+                    onChange={(e) => setStudyMode(e.target.value as StudyMode)}
+                    className="bg-gray-100 dark:bg-gray-700 border-none rounded-lg px-4 py-2 text-gray-800 dark:text-white font-medium focus:ring-2 focus:ring-blue-500 outline-none"
+                >
+                    <option value="mixed">Mixed (Random)</option>
+                    <option value="generic_to_brand">Generic → Brand</option>
+                    <option value="brand_to_generic">Brand → Generic</option>
+                    <option value="typed">Typed Answer (Mixed)</option>
+                    <option value="generic_to_class">Generic → Class</option>
+                    <option value="class_to_generic">Class → Generic</option>
+                    <option value="multiple_choice">Multiple Choice (All)</option>
+                </select>
+            </div>
+            <div className="flex items-center justify-between">
+                <span className="text-gray-500 dark:text-gray-400 font-bold text-sm uppercase">Scheduling</span>
+                <select 
+                    value={scheduleMode}
+                    onChange={(e) => setScheduleMode(e.target.value as ScheduleMode)}
+                    className="bg-gray-100 dark:bg-gray-700 border-none rounded-lg px-4 py-2 text-gray-800 dark:text-white font-medium focus:ring-2 focus:ring-blue-500 outline-none"
+                >
+                    <option value="long_term">Long-term (Due &amp; New)</option>
+                    <option value="drill">Drill (Whole Deck)</option>
+                    <option value="exam">Exam Prep (Cram)</option>
+                </select>
+            </div>
+        </div>
+
+        <div className="flex justify-end gap-2 mb-4">
+            <button 
+                onClick={() => setEditingFilter('new')}
+                className="px-4 py-2 bg-white dark:bg-gray-800 text-blue-600 dark:text-blue-400 rounded-xl font-bold shadow-sm hover:bg-blue-50 dark:hover:bg-gray-700 transition"
             >
-                <option value="mixed">Mixed (Random)</option>
-                <option value="generic_to_brand">Generic → Brand</option>
-                <option value="brand_to_generic">Brand → Generic</option>
-            </select>
+                + Filtered Deck
+            </button>
+            <button 
+                onClick={() => setView('import')}
+                className="px-4 py-2 bg-white dark:bg-gray-800 text-blue-600 dark:text-blue-400 rounded-xl font-bold shadow-sm hover:bg-blue-50 dark:hover:bg-gray-700 transition"
+            >
+                + Import
+            </button>
         </div>
 
         <div className="space-y-4">
             {decks.length === 0 ? (
-                <div className="text-center py-20 text-gray-400">Loading...</div>
+                <div className="text-center py-20 text-gray-400">{decksLoaded ? 'No decks yet. Import a drug list to get started.' : 'Loading...'}</div>
             ) : (
                 decks.map(deck => (
                     <div key={deck.id} className="bg-white dark:bg-gray-800 rounded-2xl p-6 shadow-sm border border-transparent hover:border-blue-200 dark:hover:border-blue-700">
-                        <div className="flex justify-between items-center mb-6">
-                            <h3 className="text-xl font-bold text-gray-800 dark:text-white">{deck.name}</h3>
-                            <span className="text-xs bg-green-100 text-green-700 px-2 py-1 rounded-full font-bold">Official</span>
+                        <div className="flex justify-between items-center gap-2 mb-2">
+                            {renaming?.deckId === deck.id ? (
+                                <input 
+                                    type="text"
+                                    value={renaming.name}
+                                    onChange={(e) => setRenaming({ deckId: deck.id, name: e.target.value })}
+                                    onKeyDown={(e) => { if (e.key === 'Enter') handleRenameDeck(); if (e.key === 'Escape') setRenaming(null); }}
+                                    onBlur={handleRenameDeck}
+                                    autoFocus
+                                    className="flex-1 text-xl font-bold bg-gray-100 dark:bg-gray-700 text-gray-800 dark:text-white rounded-lg px-2 py-1 outline-none focus:ring-2 focus:ring-blue-500"
+                                />
+                            ) : (
+                                <h3 className="text-xl font-bold text-gray-800 dark:text-white">{deck.name}</h3>
+                            )}
+                            <div className="flex items-center gap-2 shrink-0">
+                                {(deck.id === HAMILTON_DECK_ID || deck.id === CARDIO_DECK_ID) && (
+                                    <span className="text-xs bg-green-100 text-green-700 px-2 py-1 rounded-full font-bold">Official</span>
+                                )}
+                                {deck.filter && (
+                                    <>
+                                        <span className="text-xs bg-purple-100 text-purple-700 px-2 py-1 rounded-full font-bold">Filtered</span>
+                                        <button 
+                                            onClick={() => setEditingFilter(deck)}
+                                            className="text-xs text-gray-400 hover:text-blue-600 dark:hover:text-blue-400 px-1"
+                                        >
+                                            Edit
+                                        </button>
+                                    </>
+                                )}
+                                <button 
+                                    onClick={() => setRenaming({ deckId: deck.id, name: deck.name })}
+                                    className="text-xs text-gray-400 hover:text-blue-600 dark:hover:text-blue-400 px-1"
+                                >
+                                    Rename
+                                </button>
+                                <button 
+                                    onClick={() => handleDeleteDeck(deck)}
+                                    className="text-xs text-gray-400 hover:text-red-600 px-1"
+                                >
+                                    Delete
+                                </button>
+                            </div>
+                        </div>
+                        {deck.filter && (
+                            <div className="text-xs text-gray-500 dark:text-gray-400 mb-2 truncate">{describeFilter(deck.filter)}</div>
+                        )}
+                        <div className="flex gap-4 mb-6 text-sm font-mono font-bold">
+                            <span className="text-blue-600 dark:text-blue-400">New {deckCounts[deck.id]?.newCount ?? '–'}</span>
+                            <span className="text-red-500 dark:text-red-400">Learning {deckCounts[deck.id]?.learningCount ?? '–'}</span>
+                            <span className="text-green-600 dark:text-green-400">Due {deckCounts[deck.id]?.dueCount ?? '–'}</span>
                         </div>
+                        <div className="flex items-center gap-2 mb-4 text-sm text-gray-500 dark:text-gray-400">
+                            <span>Exam</span>
+                            <input 
+                                type="date"
+                                value={deck.examDate ? toDateInput(deck.examDate) : ''}
+                                onChange={(e) => handleExamDateChange(deck, e.target.value)}
+                                className="bg-gray-100 dark:bg-gray-700 text-gray-800 dark:text-white rounded-lg px-2 py-1 outline-none focus:ring-2 focus:ring-blue-500"
+                            />
+                            {deck.examDate && (
+                                <>
+                                    <span className="font-mono text-purple-600 dark:text-purple-400">{daysUntilExam(deck.examDate)}d left</span>
+                                    <button 
+                                        onClick={() => handleAction(deck, 'plan')}
+                                        className="text-xs text-gray-400 hover:text-blue-600 dark:hover:text-blue-400 px-1"
+                                    >
+                                        Plan
+                                    </button>
+                                </>
+                            )}
+                        </div>
+                        {savedSessions[deck.id] && (
+                            <button 
+                                onClick={() => handleResume(deck, savedSessions[deck.id])}
+                                className="w-full mb-3 py-2.5 bg-blue-50 dark:bg-blue-900/30 hover:bg-blue-100 dark:hover:bg-blue-900/50 text-blue-700 dark:text-blue-300 rounded-xl font-bold transition"
+                            >
+                                Resume Session
+                                <span className="ml-2 text-xs font-normal opacity-80">
+                                    {savedSessions[deck.id].cards.filter(c => c.sessionState !== 'done').length} cards left · saved {new Date(savedSessions[deck.id].savedAt).toLocaleTimeString(undefined, { hour: 'numeric', minute: '2-digit' })}
+                                </span>
+                            </button>
+                        )}
                         <div className="grid grid-cols-2 gap-4">
                             <button 
                                 onClick={() => handleAction(deck, 'review')}
@@ -125,7 +371,15 @@ export default function App() {
         </div>
       </main>
       
-      {showSettings && <SettingsModal settings={settings} onSave={handleSaveSettings} onClose={() => setShowSettings(false)} />}
+      {editingFilter && (
+        <FilteredDeckBuilder 
+            decks={decks.filter(d => !d.filter)} 
+            deck={editingFilter === 'new' ? null : editingFilter} 
+            onSaved={async () => { setEditingFilter(null); await fetchDecks(); }} 
+            onClose={() => setEditingFilter(null)} 
+        />
+      )}
+      {showSettings && <SettingsModal settings={settings} onSave={handleSaveSettings} onClose={() => setShowSettings(false)} onRestored={handleRestored} />}
     </div>
   );
 }
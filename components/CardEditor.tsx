@@ -0,0 +1,164 @@
+import React, { useState } from 'react';
+import { Card } from '../types';
+import { dbService } from '../services/db';
+import { parseTags } from '../services/tags';
+import { NoteView } from './NoteView';
+
+const generateId = () => Math.random().toString(36).substring(2, 15) + Math.random().toString(36).substring(2, 15);
+
+interface Props {
+  deckId: string;
+  card: Card | null; // null = add a new card
+  onSaved: (card: Card) => void;
+  onDeleted: (cardId: string) => void;
+  onClose: () => void;
+}
+
+export const CardEditor: React.FC<Props> = ({ deckId, card, onSaved, onDeleted, onClose }) => {
+  const [generic, setGeneric] = useState(card?.generic || '');
+  const [brand, setBrand] = useState(card?.brand || '');
+  const [classification, setClassification] = useState(card?.classification || '');
+  const [tags, setTags] = useState((card?.tags || []).join(', '));
+  const [notes, setNotes] = useState(card?.notes || '');
+  const [previewNotes, setPreviewNotes] = useState(false);
+  const [error, setError] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  const handleSave = async () => {
+    if (!generic.trim() || !brand.trim()) {
+      setError('Generic and brand names are required');
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const now = Date.now();
+      const saved: Card = card
+        ? {
+            ...card,
+            generic: generic.trim(),
+            brand: brand.trim(),
+            classification: classification.trim() || 'Unclassified',
+            tags: parseTags(tags),
+            notes: notes.trim(),
+            userEdited: true,
+            updatedAt: now,
+          }
+        : {
+            id: generateId(),
+            deckId,
+            generic: generic.trim(),
+            brand: brand.trim(),
+            classification: classification.trim() || 'Unclassified',
+            notes: notes.trim(),
+            tags: parseTags(tags),
+            dueDate: now,
+            intervalDays: 0,
+            easeFactor: 2.5,
+            repetitions: 0,
+            lapses: 0,
+            state: 'new',
+            difficultyScore: 0,
+            createdAt: now,
+            updatedAt: now,
+          };
+
+      await dbService.updateCard(saved);
+      onSaved(saved);
+    } catch (err) {
+      console.error(err);
+      setError('Failed to save card.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!card) return;
+    if (!window.confirm(`Delete "${card.generic}" and its review history?`)) return;
+    try {
+      await dbService.deleteCard(card.id);
+      onDeleted(card.id);
+    } catch (err) {
+      console.error(err);
+      setError('Failed to delete card.');
+    }
+  };
+
+  const inputClass = "w-full bg-gray-50 dark:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded-lg p-2.5 text-gray-900 dark:text-white focus:ring-2 focus:ring-blue-500 outline-none";
+
+  return (
+    <div className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center z-50 p-4" onClick={e => e.stopPropagation()}>
+      <div className="bg-white dark:bg-gray-800 rounded-2xl shadow-2xl w-full max-w-md overflow-hidden flex flex-col max-h-[90vh]">
+        <div className="p-6 border-b dark:border-gray-700">
+          <h2 className="text-2xl font-bold text-gray-900 dark:text-white">{card ? 'Edit Card' : 'Add Card'}</h2>
+        </div>
+
+        <div className="p-6 overflow-y-auto space-y-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Generic Name</label>
+            <input type="text" value={generic} onChange={e => setGeneric(e.target.value)} className={inputClass} autoFocus />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Brand Name</label>
+            <input type="text" value={brand} onChange={e => setBrand(e.target.value)} className={inputClass} />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Classification</label>
+            <input type="text" value={classification} onChange={e => setClassification(e.target.value)} className={inputClass} />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Tags</label>
+            <input type="text" value={tags} onChange={e => setTags(e.target.value)} placeholder="e.g. week5, cardio" className={inputClass} />
+          </div>
+          <div>
+            <div className="flex items-center justify-between mb-1">
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">Notes</label>
+              <button onClick={() => setPreviewNotes(!previewNotes)} className="text-xs text-blue-600 dark:text-blue-400 hover:underline">
+                {previewNotes ? 'Edit' : 'Preview'}
+              </button>
+            </div>
+            {previewNotes ? (
+              <div className="min-h-[8rem] bg-gray-50 dark:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded-lg p-2.5 text-sm text-gray-700 dark:text-gray-200">
+                {notes.trim() ? <NoteView text={notes} /> : <span className="text-gray-400">Nothing to preview.</span>}
+              </div>
+            ) : (
+              <textarea
+                value={notes}
+                onChange={e => setNotes(e.target.value)}
+                rows={5}
+                placeholder={"Mnemonic, indications, side effects, dosing pearls...\n- **Bold**, *italic*, `dose`\n- one bullet per line"}
+                className={`${inputClass} text-sm`}
+              />
+            )}
+            <p className="text-xs text-gray-500 mt-1">Supports **bold**, *italic*, `code` and "- " bullet lists.</p>
+          </div>
+          {error && <div className="text-center text-red-500 bg-red-50 dark:bg-red-900/20 p-3 rounded">{error}</div>}
+        </div>
+
+        <div className="p-6 border-t dark:border-gray-700 flex justify-between gap-3 bg-gray-50 dark:bg-gray-800">
+          {card ? (
+            <button onClick={handleDelete} className="px-4 py-2.5 text-red-600 hover:bg-red-50 dark:hover:bg-red-900/20 rounded-lg font-medium transition">
+              Delete
+            </button>
+          ) : <span />}
+          <div className="flex gap-3">
+            <button
+              onClick={onClose}
+              className="px-5 py-2.5 text-gray-600 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-700 rounded-lg font-medium transition"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={handleSave}
+              disabled={saving}
+              className="px-5 py-2.5 bg-blue-600 text-white rounded-lg font-medium shadow-lg hover:bg-blue-700 transition"
+            >
+              {saving ? 'Saving...' : 'Save'}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
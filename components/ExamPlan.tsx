@@ -0,0 +1,79 @@
+import React, { useState, useEffect } from 'react';
+import { Deck } from '../types';
+import { dbService } from '../services/db';
+import { buildExamPlan, daysUntilExam, ExamPlanDay } from '../services/cram';
+import { EXAM_TARGET_REVIEWS } from '../constants';
+
+interface Props {
+  deck: Deck;
+  onBack: () => void;
+}
+
+const formatDay = (time: number) => new Date(time).toLocaleDateString(undefined, { weekday: 'short', month: 'short', day: 'numeric' });
+
+export const ExamPlan: React.FC<Props> = ({ deck, onBack }) => {
+  const [plan, setPlan] = useState<ExamPlanDay[] | null>(null);
+
+  useEffect(() => {
+    if (!deck.examDate) return;
+    const examDate = deck.examDate;
+    const load = async () => {
+      const cards = await dbService.getCardsForDeck(deck.id);
+      setPlan(buildExamPlan(cards, examDate));
+    };
+    load();
+  }, [deck]);
+
+  const max = plan ? Math.max(1, ...plan.map(d => d.newCount + d.reviewCount)) : 1;
+
+  return (
+    <div className="min-h-screen bg-gray-50 dark:bg-gray-900 transition-colors duration-300">
+      <div className="sticky top-0 z-20 bg-white dark:bg-gray-800 border-b dark:border-gray-700 shadow-sm p-4">
+        <div className="max-w-4xl mx-auto flex items-center justify-between">
+          <button onClick={onBack} className="text-gray-500 hover:text-gray-800 dark:text-gray-400 dark:hover:text-white font-medium flex items-center gap-1">
+             ← Back
+          </button>
+          <h2 className="text-lg font-bold text-gray-800 dark:text-white">Exam Plan</h2>
+          <span className="text-xs font-mono text-gray-400">{deck.examDate ? `${daysUntilExam(deck.examDate)} days left` : ''}</span>
+        </div>
+      </div>
+
+      <main className="max-w-4xl mx-auto p-4 space-y-4">
+        {!deck.examDate ? (
+          <div className="text-center py-20 text-gray-400">Set an exam date for this deck first.</div>
+        ) : !plan ? (
+          <div className="text-center py-20 text-gray-400">Loading...</div>
+        ) : (
+          <section className="bg-white dark:bg-gray-800 rounded-2xl p-5 shadow-sm">
+            <h3 className="text-sm uppercase tracking-wide text-blue-600 font-bold mb-1">{deck.name}</h3>
+            <p className="text-xs text-gray-500 dark:text-gray-400 mb-4">
+              Exam on {formatDay(deck.examDate)}. Every card is shown {EXAM_TARGET_REVIEWS} times, hardest first. Assumes you answer Good; misses add reviews.
+            </p>
+            <div className="space-y-2">
+              {plan.map((day, i) => (
+                <div key={day.dayStart} className="flex items-center gap-3 text-sm">
+                  <span className={`w-28 shrink-0 ${i === 0 ? 'font-bold text-gray-800 dark:text-white' : 'text-gray-600 dark:text-gray-300'}`}>
+                    {i === 0 ? 'Today' : formatDay(day.dayStart)}
+                  </span>
+                  <div className="flex-1 h-3 bg-gray-100 dark:bg-gray-700 rounded-full overflow-hidden flex">
+                    <div className="h-full bg-blue-500" style={{ width: `${(day.newCount / max) * 100}%` }} />
+                    <div className="h-full bg-green-500" style={{ width: `${(day.reviewCount / max) * 100}%` }} />
+                  </div>
+                  <span className="w-24 shrink-0 text-right font-mono text-xs">
+                    <span className="text-blue-600 dark:text-blue-400">{day.newCount}</span>
+                    <span className="text-gray-400"> + </span>
+                    <span className="text-green-600 dark:text-green-400">{day.reviewCount}</span>
+                  </span>
+                </div>
+              ))}
+            </div>
+            <div className="flex gap-4 mt-4 text-[10px] uppercase text-gray-400">
+              <span className="flex items-center gap-1"><span className="w-2 h-2 rounded-full bg-blue-500" />New</span>
+              <span className="flex items-center gap-1"><span className="w-2 h-2 rounded-full bg-green-500" />Reviews</span>
+            </div>
+          </section>
+        )}
+      </main>
+    </div>
+  );
+};
@@ -0,0 +1,139 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { Card, Deck, DeckFilter } from '../types';
+import { dbService } from '../services/db';
+import { EMPTY_FILTER, applyDeckFilter, parseFilterList } from '../services/filteredDecks';
+
+const generateId = () => Math.random().toString(36).substring(2, 15) + Math.random().toString(36).substring(2, 15);
+
+interface Props {
+  decks: Deck[]; // regular decks to draw cards from
+  deck: Deck | null; // null = build a new filtered deck
+  onSaved: () => void;
+  onClose: () => void;
+}
+
+export const FilteredDeckBuilder: React.FC<Props> = ({ decks, deck, onSaved, onClose }) => {
+  const initial = deck?.filter || EMPTY_FILTER;
+  const [name, setName] = useState(deck?.name || '');
+  const [deckIds, setDeckIds] = useState<string[]>(initial.deckIds);
+  const [classifications, setClassifications] = useState(initial.classifications.join(', '));
+  const [tags, setTags] = useState(initial.tags.join(', '));
+  const [minDifficulty, setMinDifficulty] = useState(initial.minDifficulty);
+  const [minLapses, setMinLapses] = useState(initial.minLapses);
+  const [allCards, setAllCards] = useState<Card[]>([]);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    dbService.getAllCards().then(setAllCards);
+  }, []);
+
+  const filter: DeckFilter = {
+    deckIds,
+    classifications: parseFilterList(classifications),
+    tags: parseFilterList(tags),
+    minDifficulty,
+    minLapses,
+  };
+
+  const matching = useMemo(() => applyDeckFilter(allCards, filter), [allCards, deckIds, classifications, tags, minDifficulty, minLapses]);
+
+  const toggleDeck = (id: string) => {
+    setDeckIds(prev => prev.includes(id) ? prev.filter(d => d !== id) : [...prev, id]);
+  };
+
+  const handleSave = async () => {
+    if (!name.trim()) {
+      setError('Please name the filtered deck');
+      return;
+    }
+    try {
+      await dbService.updateDeck(deck
+        ? { ...deck, name: name.trim(), filter }
+        : { id: generateId(), name: name.trim(), createdAt: Date.now(), filter });
+      onSaved();
+    } catch (err) {
+      console.error(err);
+      setError('Failed to save filtered deck.');
+    }
+  };
+
+  const inputClass = "w-full bg-gray-50 dark:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded-lg p-2.5 text-gray-900 dark:text-white focus:ring-2 focus:ring-blue-500 outline-none";
+
+  return (
+    <div className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center z-50 p-4">
+      <div className="bg-white dark:bg-gray-800 rounded-2xl shadow-2xl w-full max-w-lg overflow-hidden flex flex-col max-h-[90vh]">
+        <div className="p-6 border-b dark:border-gray-700">
+          <h2 className="text-2xl font-bold text-gray-900 dark:text-white">{deck ? 'Edit Filtered Deck' : 'New Filtered Deck'}</h2>
+          <p className="text-sm text-gray-500 dark:text-gray-400">A study set built from matching cards. Progress stays with the original cards.</p>
+        </div>
+
+        <div className="p-6 overflow-y-auto space-y-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Name</label>
+            <input type="text" value={name} onChange={e => setName(e.target.value)} placeholder="e.g. Cardiology block" className={inputClass} autoFocus />
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">From Decks</label>
+            <div className="space-y-1">
+              {decks.map(d => (
+                <label key={d.id} className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+                  <input type="checkbox" checked={deckIds.includes(d.id)} onChange={() => toggleDeck(d.id)} />
+                  {d.name}
+                </label>
+              ))}
+            </div>
+            <p className="text-xs text-gray-500 mt-1">Leave all unchecked to search every deck.</p>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Classification contains</label>
+            <input type="text" value={classifications} onChange={e => setClassifications(e.target.value)} placeholder="e.g. Beta-Blocker, ARB" className={inputClass} />
+            <p className="text-xs text-gray-500 mt-1">Comma separated; a card matches if its class contains any of them.</p>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Tags</label>
+            <input type="text" value={tags} onChange={e => setTags(e.target.value)} placeholder="e.g. week5" className={inputClass} />
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Min. difficulty</label>
+              <input type="number" min="0" value={minDifficulty} onChange={e => setMinDifficulty(Number(e.target.value) || 0)} className={inputClass} />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Min. lapses</label>
+              <input type="number" min="0" value={minLapses} onChange={e => setMinLapses(Number(e.target.value) || 0)} className={inputClass} />
+            </div>
+          </div>
+
+          <div className="bg-blue-50 dark:bg-blue-900/20 text-blue-700 dark:text-blue-300 p-3 rounded-lg text-sm">
+            <span className="font-bold">{matching.length}</span> matching cards
+            {matching.length > 0 && (
+              <div className="text-xs mt-1 text-blue-600/80 dark:text-blue-300/80 truncate">
+                {matching.slice(0, 8).map(c => c.generic).join(', ')}{matching.length > 8 ? ', …' : ''}
+              </div>
+            )}
+          </div>
+          {error && <div className="text-center text-red-500 bg-red-50 dark:bg-red-900/20 p-3 rounded">{error}</div>}
+        </div>
+
+        <div className="p-6 border-t dark:border-gray-700 flex justify-end gap-3 bg-gray-50 dark:bg-gray-800">
+          <button
+            onClick={onClose}
+            className="px-5 py-2.5 text-gray-600 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-700 rounded-lg font-medium transition"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleSave}
+            className="px-5 py-2.5 bg-blue-600 text-white rounded-lg font-medium shadow-lg hover:bg-blue-700 transition"
+          >
+            Save
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
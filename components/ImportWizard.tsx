@@ -1,22 +1,59 @@
-import React, { useState } from 'react';
-import { extractTextFromPdf, parseLinesToPairs } from '../services/pdfParser';
-import { ParseResult, Deck, Card } from '../types';
+import React, { useState, useEffect, useMemo } from 'react';
+import { findParser, applyColumnMapping, IMPORT_FIELDS, ACCEPTED_EXTENSIONS } from '../services/importParsers';
+import { ParseResult, Deck, Card, ImportTable, ColumnMapping, ImportField } from '../types';
 import { dbService } from '../services/db';
+import { normalizeTags } from '../services/tags';
+import { DOUBTFUL_ROW_CONFIDENCE } from '../constants';
 
 const generateId = () => Math.random().toString(36).substring(2, 15) + Math.random().toString(36).substring(2, 15);
 
+const pairKey = (generic: string, brand: string) => `${generic.trim().toLowerCase()}|${brand.trim().toLowerCase()}`;
+
+// Rows a layout-reading parser was unsure of; rows from other formats carry no score
+const isDoubtful = (pair: ParseResult) => pair.confidence !== undefined && pair.confidence.score < DOUBTFUL_ROW_CONFIDENCE;
+
+type DuplicateResolution = 'skip' | 'overwrite' | 'keep_both';
+
 interface Props {
+  decks: Deck[];
   onComplete: () => void;
   onCancel: () => void;
 }
 
-export const ImportWizard: React.FC<Props> = ({ onComplete, onCancel }) => {
-  const [step, setStep] = useState<'upload' | 'review'>('upload');
+export const ImportWizard: React.FC<Props> = ({ decks, onComplete, onCancel }) => {
+  const [step, setStep] = useState<'upload' | 'mapping' | 'review'>('upload');
   const [loading, setLoading] = useState(false);
+  const [table, setTable] = useState<ImportTable | null>(null);
+  const [mapping, setMapping] = useState<ColumnMapping>({});
   const [parsedPairs, setParsedPairs] = useState<ParseResult[]>([]);
   const [deckName, setDeckName] = useState('New Drug Deck');
+  const [targetDeckId, setTargetDeckId] = useState(''); // '' = create a new deck
+  const [existingCards, setExistingCards] = useState<Card[]>([]);
+  const [resolutions, setResolutions] = useState<Record<number, DuplicateResolution>>({});
+  const [doubtfulOnly, setDoubtfulOnly] = useState(false);
   const [error, setError] = useState('');
 
+  useEffect(() => {
+    if (!targetDeckId) {
+      setExistingCards([]);
+      return;
+    }
+    dbService.getCardsForDeck(targetDeckId).then(setExistingCards);
+  }, [targetDeckId]);
+
+  // Row index -> existing card with the same generic/brand pair in the target deck
+  const duplicates = useMemo(() => {
+    const byKey = new Map(existingCards.map(c => [pairKey(c.generic, c.brand), c]));
+    const result = new Map<number, Card>();
+    parsedPairs.forEach((p, idx) => {
+      const match = byKey.get(pairKey(p.generic, p.brand));
+      if (match) result.set(idx, match);
+    });
+    return result;
+  }, [existingCards, parsedPairs]);
+
+  const doubtfulCount = useMemo(() => parsedPairs.filter(isDoubtful).length, [parsedPairs]);
+
   const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
     if (!e.target.files || e.target.files.length === 0) return;
     const file = e.target.files[0];
@@ -24,58 +61,137 @@ export const ImportWizard: React.FC<Props> = ({ onComplete, onCancel }) => {
     setLoading(true);
     setError('');
     
+    const parser = findParser(file);
+    if (!parser) {
+      setError('Unsupported file type. Use a PDF, CSV, TSV or Anki plain text export.');
+      setLoading(false);
+      return;
+    }
+
     try {
-      const lines = await extractTextFromPdf(file);
-      const pairs = parseLinesToPairs(lines);
-      if (pairs.length === 0) {
-        setError('No pairs detected. Try a different PDF or check format.');
+      const parsed = await parser.parse(file);
+      if (parsed.rows.length === 0) {
+        setError(`No rows detected. Try a different ${parser.label} file or check format.`);
+      } else if (parsed.requiresMapping) {
+        setTable(parsed);
+        setMapping(parsed.mapping);
+        setStep('mapping');
       } else {
-        setParsedPairs(pairs);
+        setTable(parsed);
+        setParsedPairs(applyColumnMapping(parsed, parsed.mapping));
+        setDoubtfulOnly(false);
         setStep('review');
       }
     } catch (err) {
       console.error(err);
-      setError('Failed to parse PDF. Please ensure it is a valid PDF file.');
+      setError(`Failed to parse file. Please ensure it is a valid ${parser.label} file.`);
     } finally {
       setLoading(false);
     }
   };
 
+  const handleMappingChange = (field: ImportField, value: string) => {
+    const next = { ...mapping };
+    if (value === '') delete next[field];
+    else next[field] = Number(value);
+    setMapping(next);
+  };
+
+  const handleApplyMapping = () => {
+    if (!table) return;
+    if (mapping.generic === undefined || mapping.brand === undefined) {
+      setError('Map both the generic and brand columns');
+      return;
+    }
+    const pairs = applyColumnMapping(table, mapping);
+    if (pairs.length === 0) {
+      setError('No rows have both a generic and a brand name with this mapping.');
+      return;
+    }
+    setError('');
+    setParsedPairs(pairs);
+    setResolutions({});
+    setDoubtfulOnly(false);
+    setStep('review');
+  };
+
   const handleUpdatePair = (index: number, field: keyof ParseResult, value: string) => {
     const newPairs = [...parsedPairs];
     newPairs[index] = { ...newPairs[index], [field]: value };
     setParsedPairs(newPairs);
   };
 
+  // The user has checked the row, so it no longer needs highlighting
+  const handleConfirmPair = (index: number) => {
+    const newPairs = [...parsedPairs];
+    newPairs[index] = { ...newPairs[index], confidence: { score: 1, issues: [] } };
+    setParsedPairs(newPairs);
+  };
+
   const handleDeletePair = (index: number) => {
     setParsedPairs(parsedPairs.filter((_, i) => i !== index));
+    const shifted: Record<number, DuplicateResolution> = {};
+    Object.entries(resolutions).forEach(([key, value]) => {
+      const i = Number(key);
+      if (i !== index) shifted[i > index ? i - 1 : i] = value;
+    });
+    setResolutions(shifted);
   };
 
   const handleSave = async () => {
-    if (!deckName.trim()) {
+    if (!targetDeckId && !deckName.trim()) {
       setError('Please enter a deck name');
       return;
     }
 
     setLoading(true);
     try {
-      const deckId = generateId();
-      const newDeck: Deck = {
-        id: deckId,
-        name: deckName,
-        createdAt: Date.now(),
-      };
+      let deckId = targetDeckId;
+      if (!deckId) {
+        deckId = generateId();
+        const newDeck: Deck = {
+          id: deckId,
+          name: deckName,
+          createdAt: Date.now(),
+        };
+        await dbService.addDeck(newDeck);
+      }
 
-      await dbService.addDeck(newDeck);
+      const toCreate: ParseResult[] = [];
+      const toOverwrite: Card[] = [];
+      parsedPairs.forEach((p, idx) => {
+        const existing = duplicates.get(idx);
+        if (!existing) {
+          toCreate.push(p);
+          return;
+        }
+        const resolution = resolutions[idx] || 'skip';
+        if (resolution === 'keep_both') {
+          toCreate.push(p);
+        } else if (resolution === 'overwrite') {
+          // Only the content changes; the card keeps its id and SRS history.
+          // userEdited stops preloaded sync from putting the old content back.
+          toOverwrite.push({
+            ...existing,
+            generic: p.generic,
+            brand: p.brand,
+            classification: p.classification,
+            notes: p.notes || existing.notes,
+            tags: normalizeTags([...(existing.tags || []), ...(p.tags || [])]),
+            userEdited: true,
+            updatedAt: Date.now(),
+          });
+        }
+      });
 
-      const cards: Card[] = parsedPairs.map(p => ({
+      const cards: Card[] = toCreate.map(p => ({
         id: generateId(),
         deckId: deckId,
         generic: p.generic,
         brand: p.brand,
         classification: p.classification,
-        notes: '',
-        tags: [],
+        notes: p.notes || '',
+        tags: p.tags || [],
         dueDate: Date.now(),
         intervalDays: 0,
         easeFactor: 2.5,
@@ -87,7 +203,7 @@ export const ImportWizard: React.FC<Props> = ({ onComplete, onCancel }) => {
         updatedAt: Date.now(),
       }));
 
-      await dbService.addCards(cards);
+      await dbService.addCards([...cards, ...toOverwrite]);
       onComplete();
     } catch (err) {
       setError('Failed to save deck.');
@@ -101,17 +217,17 @@ export const ImportWizard: React.FC<Props> = ({ onComplete, onCancel }) => {
     return (
       <div className="max-w-xl mx-auto p-6 bg-white rounded-xl shadow-md space-y-6">
         <div className="flex justify-between items-center">
-            <h2 className="text-2xl font-bold text-gray-800">Import from PDF</h2>
+            <h2 className="text-2xl font-bold text-gray-800">Import Drug List</h2>
             <button onClick={onCancel} className="text-gray-500 hover:text-gray-700">✕</button>
         </div>
         
         <div className="border-2 border-dashed border-gray-300 rounded-lg p-10 text-center hover:bg-gray-50 transition-colors">
             <label className="cursor-pointer">
-                <span className="block text-gray-600 font-medium mb-2">Click to Upload PDF</span>
-                <span className="text-sm text-gray-400">Layout: "Generic [space] Brand [space] Class"</span>
+                <span className="block text-gray-600 font-medium mb-2">Click to Upload PDF, CSV, TSV or Anki Text</span>
+                <span className="text-sm text-gray-400">PDF tables: Generic, Brand and Class columns</span>
                 <input 
                     type="file" 
-                    accept="application/pdf" 
+                    accept={ACCEPTED_EXTENSIONS} 
                     onChange={handleFileChange} 
                     className="hidden" 
                     disabled={loading}
@@ -119,35 +235,121 @@ export const ImportWizard: React.FC<Props> = ({ onComplete, onCancel }) => {
             </label>
         </div>
         
-        {loading && <div className="text-center text-blue-600 animate-pulse">Parsing PDF... please wait</div>}
+        {loading && <div className="text-center text-blue-600 animate-pulse">Parsing file... please wait</div>}
         {error && <div className="text-center text-red-500 bg-red-50 p-3 rounded">{error}</div>}
       </div>
     );
   }
 
+  if (step === 'mapping' && table) {
+    const previewRows = table.rows.slice(0, 5);
+    return (
+      <div className="max-w-5xl mx-auto p-4 bg-white rounded-xl shadow-md flex flex-col max-h-[85vh]">
+        <div className="flex justify-between items-center mb-4 border-b pb-4">
+          <div>
+              <h2 className="text-2xl font-bold text-gray-800">Map Columns</h2>
+              <p className="text-sm text-gray-500">{table.rows.length} rows detected</p>
+          </div>
+          <div className="flex gap-2">
+              <button onClick={() => setStep('upload')} className="px-4 py-2 text-gray-600 hover:bg-gray-100 rounded">Back</button>
+              <button onClick={handleApplyMapping} className="px-6 py-2 bg-blue-600 text-white rounded hover:bg-blue-700 font-medium">Continue</button>
+          </div>
+        </div>
+
+        <div className="grid grid-cols-2 md:grid-cols-5 gap-3 mb-4">
+          {IMPORT_FIELDS.map(({ field, label, required }) => (
+            <div key={field}>
+              <label className="block text-sm font-medium text-gray-700 mb-1">{label}{required && ' *'}</label>
+              <select 
+                  value={mapping[field] ?? ''} 
+                  onChange={e => handleMappingChange(field, e.target.value)} 
+                  className="w-full border rounded p-2 text-sm focus:ring-2 focus:ring-blue-500 outline-none"
+              >
+                  <option value="">— none —</option>
+                  {table.headers.map((h, i) => <option key={i} value={i}>{h}</option>)}
+              </select>
+            </div>
+          ))}
+        </div>
+
+        {error && <div className="mb-4 text-center text-red-500 bg-red-50 p-3 rounded">{error}</div>}
+
+        <div className="flex-1 overflow-auto border rounded-lg">
+          <table className="w-full text-left border-collapse text-sm">
+              <thead className="bg-gray-100 sticky top-0 z-10 shadow-sm">
+                  <tr>
+                      {table.headers.map((h, i) => (
+                          <th key={i} className="p-3 font-semibold text-gray-600">
+                              {h}
+                              <div className="text-[10px] uppercase text-blue-500">
+                                  {IMPORT_FIELDS.filter(f => mapping[f.field] === i).map(f => f.label).join(', ')}
+                              </div>
+                          </th>
+                      ))}
+                  </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200">
+                  {previewRows.map((row, idx) => (
+                      <tr key={idx}>
+                          {table.headers.map((_, i) => <td key={i} className="p-3 text-gray-700">{row[i] || ''}</td>)}
+                      </tr>
+                  ))}
+              </tbody>
+          </table>
+        </div>
+      </div>
+    );
+  }
+
   return (
     <div className="max-w-5xl mx-auto p-4 bg-white rounded-xl shadow-md flex flex-col h-[85vh]">
       <div className="flex justify-between items-center mb-4 border-b pb-4">
         <div>
             <h2 className="text-2xl font-bold text-gray-800">Review Flashcards</h2>
-            <p className="text-sm text-gray-500">{parsedPairs.length} pairs detected</p>
+            <p className="text-sm text-gray-500">
+                {parsedPairs.length} pairs detected
+                {duplicates.size > 0 && <span className="text-amber-600"> • {duplicates.size} already in deck</span>}
+                {doubtfulCount > 0 && (
+                    <span className="text-red-600">
+                        {' '}• {doubtfulCount} to check{' '}
+                        <button onClick={() => setDoubtfulOnly(!doubtfulOnly)} className="underline hover:text-red-800">
+                            {doubtfulOnly ? 'show all' : 'show only these'}
+                        </button>
+                    </span>
+                )}
+            </p>
         </div>
         <div className="flex gap-2">
-            <button onClick={() => setStep('upload')} className="px-4 py-2 text-gray-600 hover:bg-gray-100 rounded">Back</button>
+            <button onClick={() => setStep(table?.requiresMapping ? 'mapping' : 'upload')} className="px-4 py-2 text-gray-600 hover:bg-gray-100 rounded">Back</button>
             <button onClick={handleSave} disabled={loading} className="px-6 py-2 bg-blue-600 text-white rounded hover:bg-blue-700 font-medium">
-                {loading ? 'Saving...' : 'Create Deck'}
+                {loading ? 'Saving...' : targetDeckId ? 'Import Cards' : 'Create Deck'}
             </button>
         </div>
       </div>
 
-      <div className="mb-4">
-        <label className="block text-sm font-medium text-gray-700 mb-1">Deck Name</label>
-        <input 
-            type="text" 
-            value={deckName} 
-            onChange={e => setDeckName(e.target.value)} 
-            className="w-full border rounded p-2 focus:ring-2 focus:ring-blue-500 outline-none"
-        />
+      <div className="mb-4 grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Import Into</label>
+            <select 
+                value={targetDeckId} 
+                onChange={e => { setTargetDeckId(e.target.value); setResolutions({}); }} 
+                className="w-full border rounded p-2 focus:ring-2 focus:ring-blue-500 outline-none"
+            >
+                <option value="">New deck</option>
+                {decks.filter(d => !d.filter).map(d => <option key={d.id} value={d.id}>{d.name}</option>)}
+            </select>
+        </div>
+        {!targetDeckId && (
+            <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Deck Name</label>
+                <input 
+                    type="text" 
+                    value={deckName} 
+                    onChange={e => setDeckName(e.target.value)} 
+                    className="w-full border rounded p-2 focus:ring-2 focus:ring-blue-500 outline-none"
+                />
+            </div>
+        )}
       </div>
 
       <div className="flex-1 overflow-auto border rounded-lg">
@@ -161,14 +363,20 @@ export const ImportWizard: React.FC<Props> = ({ onComplete, onCancel }) => {
                 </tr>
             </thead>
             <tbody className="divide-y divide-gray-200">
-                {parsedPairs.map((pair, idx) => (
-                    <tr key={idx} className="hover:bg-gray-50">
+                {parsedPairs.map((pair, idx) => (doubtfulOnly && !isDoubtful(pair)) ? null : (
+                    <tr
+                        key={idx}
+                        className={isDoubtful(pair) ? 'bg-red-50 hover:bg-red-100' : duplicates.has(idx) ? 'bg-amber-50 hover:bg-amber-100' : 'hover:bg-gray-50'}
+                    >
                         <td className="p-2">
                             <input 
                                 className="w-full bg-transparent p-1 focus:bg-white focus:ring-1 focus:ring-blue-400 rounded"
                                 value={pair.generic}
                                 onChange={(e) => handleUpdatePair(idx, 'generic', e.target.value)}
                             />
+                            {isDoubtful(pair) && (
+                                <div className="px-1 text-xs text-red-600">{pair.confidence!.issues.join(' • ') || 'Check this row'}</div>
+                            )}
                         </td>
                         <td className="p-2">
                             <input 
@@ -184,7 +392,28 @@ export const ImportWizard: React.FC<Props> = ({ onComplete, onCancel }) => {
                                 onChange={(e) => handleUpdatePair(idx, 'classification', e.target.value)}
                             />
                         </td>
-                        <td className="p-2 text-center">
+                        <td className="p-2 text-center whitespace-nowrap">
+                            {isDoubtful(pair) && (
+                                <button
+                                    onClick={() => handleConfirmPair(idx)}
+                                    className="text-xs border border-red-200 rounded px-2 py-1 mr-1 bg-white text-red-600 hover:bg-red-50"
+                                    title={`Read with ${Math.round(pair.confidence!.score * 100)}% confidence; mark as checked`}
+                                >
+                                    Looks right
+                                </button>
+                            )}
+                            {duplicates.has(idx) && (
+                                <select 
+                                    value={resolutions[idx] || 'skip'}
+                                    onChange={(e) => setResolutions({ ...resolutions, [idx]: e.target.value as DuplicateResolution })}
+                                    className="text-xs border rounded p-1 mr-1 bg-white"
+                                    title="This pair already exists in the deck"
+                                >
+                                    <option value="skip">Skip</option>
+                                    <option value="overwrite">Overwrite</option>
+                                    <option value="keep_both">Keep both</option>
+                                </select>
+                            )}
                             <button 
                                 onClick={() => handleDeletePair(idx)}
                                 className="text-red-400 hover:text-red-600 p-1"
@@ -0,0 +1,263 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { Card, Deck, LasaPair } from '../types';
+import { dbService } from '../services/db';
+import { findLasaSuggestions, tallMan, LasaSuggestion } from '../services/lasa';
+import { NoteView } from './NoteView';
+
+interface Props {
+  decks: Deck[];
+  onBack: () => void;
+}
+
+type Tab = 'suggested' | 'confirmed' | 'dismissed';
+
+// A decided pair with both of its cards loaded
+interface ResolvedPair {
+  pair: LasaPair;
+  a: Card;
+  b: Card;
+}
+
+const otherField = (field: LasaPair['field']) => field === 'generic' ? 'brand' : 'generic';
+
+const PairNames = ({ a, b, field }: { a: Card; b: Card; field: LasaPair['field'] }) => (
+  <div className="font-bold text-gray-900 dark:text-white">
+    {tallMan(a[field], b[field])} <span className="text-gray-400 font-normal">vs</span> {tallMan(b[field], a[field])}
+  </div>
+);
+
+export const LasaTrainer: React.FC<Props> = ({ decks, onBack }) => {
+  const [cards, setCards] = useState<Card[]>([]);
+  const [pairs, setPairs] = useState<LasaPair[]>([]);
+  const [suggestions, setSuggestions] = useState<LasaSuggestion[] | null>(null);
+  const [tab, setTab] = useState<Tab>('suggested');
+  const [drilling, setDrilling] = useState(false);
+
+  useEffect(() => {
+    const load = async () => {
+      const [allCards, decided] = await Promise.all([dbService.getAllCards(), dbService.getLasaPairs()]);
+      setCards(allCards);
+      setPairs(decided);
+      // Scoring every pair takes a moment on big collections; let "Scanning..." paint first
+      setTimeout(() => setSuggestions(findLasaSuggestions(allCards, decided)), 0);
+    };
+    load();
+  }, []);
+
+  const byId = new Map(cards.map(c => [c.id, c]));
+  const resolve = (status: LasaPair['status']): ResolvedPair[] => pairs
+    .filter(p => p.status === status)
+    .map(pair => ({ pair, a: byId.get(pair.cardIds[0])!, b: byId.get(pair.cardIds[1])! }))
+    .filter(r => r.a && r.b);
+  const confirmed = resolve('confirmed');
+  const dismissed = resolve('dismissed');
+
+  const deckName = (deckId: string) => decks.find(d => d.id === deckId)?.name || 'Unknown deck';
+
+  const savePair = async (pair: LasaPair) => {
+    await dbService.saveLasaPair(pair);
+    setPairs(prev => [...prev.filter(p => p.id !== pair.id), pair]);
+  };
+
+  const decide = async (s: LasaSuggestion, status: LasaPair['status']) => {
+    await savePair({ id: s.id, cardIds: [s.a.id, s.b.id], field: s.field, status, decidedAt: Date.now(), drills: 0, mixUps: 0 });
+    setSuggestions(prev => prev && prev.filter(x => x.id !== s.id));
+  };
+
+  // Forgetting a decision lets the pair come back as a suggestion on the next scan
+  const forget = async (pair: LasaPair) => {
+    await dbService.deleteLasaPair(pair.id);
+    setPairs(prev => prev.filter(p => p.id !== pair.id));
+  };
+
+  if (drilling) {
+    return <LasaDrill pairs={confirmed} onSave={savePair} onExit={() => setDrilling(false)} />;
+  }
+
+  const tabs: { id: Tab; label: string; count: number | null }[] = [
+    { id: 'suggested', label: 'Suggested', count: suggestions ? suggestions.length : null },
+    { id: 'confirmed', label: 'Confirmed', count: confirmed.length },
+    { id: 'dismissed', label: 'Dismissed', count: dismissed.length },
+  ];
+
+  return (
+    <div className="min-h-screen bg-gray-50 dark:bg-gray-900 transition-colors duration-300">
+      <div className="sticky top-0 z-20 bg-white dark:bg-gray-800 border-b dark:border-gray-700 shadow-sm p-4">
+        <div className="max-w-4xl mx-auto flex items-center justify-between">
+          <button onClick={onBack} className="text-gray-500 hover:text-gray-800 dark:text-gray-400 dark:hover:text-white font-medium flex items-center gap-1">
+             ← Back
+          </button>
+          <h2 className="text-lg font-bold text-gray-800 dark:text-white">Look-Alike / Sound-Alike</h2>
+          <button
+            onClick={() => setDrilling(true)}
+            disabled={confirmed.length === 0}
+            className="text-xs px-3 py-1.5 rounded-lg bg-blue-600 text-white font-bold disabled:opacity-40"
+          >
+            Drill {confirmed.length}
+          </button>
+        </div>
+      </div>
+
+      <main className="max-w-4xl mx-auto p-4 space-y-3">
+        <p className="text-sm text-gray-500 dark:text-gray-400">
+          Drug names across all decks that look or sound alike. Confirm the pairs worth training, then drill them side by side.
+        </p>
+
+        <div className="flex bg-gray-100 dark:bg-gray-700 rounded-lg p-1">
+          {tabs.map(t => (
+            <button
+              key={t.id}
+              onClick={() => setTab(t.id)}
+              className={`flex-1 px-3 py-1.5 text-xs font-medium rounded-md transition ${tab === t.id ? 'bg-white dark:bg-gray-600 shadow text-blue-600 dark:text-blue-300' : 'text-gray-500 dark:text-gray-400'}`}
+            >
+              {t.label}{t.count !== null ? ` (${t.count})` : ''}
+            </button>
+          ))}
+        </div>
+
+        {tab === 'suggested' && (
+          !suggestions ? (
+            <div className="text-center py-20 text-gray-400">Scanning names...</div>
+          ) : suggestions.length === 0 ? (
+            <div className="text-center py-20 text-gray-400">No new look-alike or sound-alike names.</div>
+          ) : (
+            suggestions.map(s => (
+              <div key={s.id} className="bg-white dark:bg-gray-800 rounded-2xl p-4 shadow-sm flex items-center justify-between gap-3">
+                <div className="min-w-0">
+                  <PairNames a={s.a} b={s.b} field={s.field} />
+                  <div className="text-xs text-gray-500 dark:text-gray-400 mt-0.5 truncate">
+                    {s.a[otherField(s.field)]} / {s.b[otherField(s.field)]} • {Math.round(s.score * 100)}% alike
+                    (looks {Math.round(s.orthographic * 100)}%, sounds {Math.round(s.phonetic * 100)}%)
+                  </div>
+                </div>
+                <div className="flex gap-2 shrink-0">
+                  <button onClick={() => decide(s, 'confirmed')} className="px-3 py-1.5 bg-blue-600 text-white rounded-lg text-xs font-bold hover:bg-blue-700 transition">Confirm</button>
+                  <button onClick={() => decide(s, 'dismissed')} className="px-3 py-1.5 bg-gray-100 dark:bg-gray-700 text-gray-600 dark:text-gray-300 rounded-lg text-xs font-medium hover:bg-gray-200 dark:hover:bg-gray-600 transition">Dismiss</button>
+                </div>
+              </div>
+            ))
+          )
+        )}
+
+        {tab !== 'suggested' && (
+          (tab === 'confirmed' ? confirmed : dismissed).length === 0 ? (
+            <div className="text-center py-20 text-gray-400">{tab === 'confirmed' ? 'No confirmed pairs yet.' : 'Nothing dismissed.'}</div>
+          ) : (
+            (tab === 'confirmed' ? confirmed : dismissed).map(({ pair, a, b }) => (
+              <div key={pair.id} className="bg-white dark:bg-gray-800 rounded-2xl p-4 shadow-sm flex items-center justify-between gap-3">
+                <div className="min-w-0">
+                  <PairNames a={a} b={b} field={pair.field} />
+                  <div className="text-xs text-gray-500 dark:text-gray-400 mt-0.5 truncate">
+                    {deckName(a.deckId)}{a.deckId !== b.deckId ? ` / ${deckName(b.deckId)}` : ''}
+                    {pair.status === 'confirmed' && ` • drilled ${pair.drills}×, mixed up ${pair.mixUps}×`}
+                  </div>
+                </div>
+                <button onClick={() => forget(pair)} className="shrink-0 px-3 py-1.5 text-gray-500 dark:text-gray-400 rounded-lg text-xs font-medium hover:bg-gray-100 dark:hover:bg-gray-700 transition">
+                  {pair.status === 'confirmed' ? 'Remove' : 'Restore'}
+                </button>
+              </div>
+            ))
+          )
+        )}
+      </main>
+    </div>
+  );
+};
+
+const mixUpRate = (pair: LasaPair) => pair.drills === 0 ? 1 : pair.mixUps / pair.drills;
+
+// Mixed-up pairs come back a few pairs later until both are answered right
+const REPEAT_AFTER = 3;
+
+// Shows both cards of a pair next to each other: the confusable names up front, everything that tells them apart behind
+const LasaDrill = ({ pairs, onSave, onExit }: { pairs: ResolvedPair[]; onSave: (pair: LasaPair) => Promise<void>; onExit: () => void }) => {
+  // Pairs mixed up most often go first; sides are swapped at random so position gives nothing away
+  const [queue, setQueue] = useState(() => pairs
+    .map(p => ({ ...p, flip: Math.random() < 0.5, order: mixUpRate(p.pair) + Math.random() * 0.1 }))
+    .sort((x, y) => y.order - x.order));
+  const [revealed, setRevealed] = useState(false);
+  const [results, setResults] = useState({ right: 0, mixedUp: 0 });
+  const [saving, setSaving] = useState(false);
+  // A second click before the save finishes would count the drill twice against a stale queue
+  const savingRef = useRef(false);
+
+  const current = queue[0];
+
+  const handleResult = async (mixedUp: boolean) => {
+    if (savingRef.current) return;
+    savingRef.current = true;
+    setSaving(true);
+    try {
+      const pair = { ...current.pair, drills: current.pair.drills + 1, mixUps: current.pair.mixUps + (mixedUp ? 1 : 0) };
+      await onSave(pair);
+      setResults(r => mixedUp ? { ...r, mixedUp: r.mixedUp + 1 } : { ...r, right: r.right + 1 });
+      const rest = queue.slice(1);
+      if (mixedUp) rest.splice(Math.min(REPEAT_AFTER, rest.length), 0, { ...current, pair });
+      setQueue(rest);
+      setRevealed(false);
+    } finally {
+      savingRef.current = false;
+      setSaving(false);
+    }
+  };
+
+  if (!current) {
+    return (
+      <div className="flex flex-col h-screen items-center justify-center bg-gray-50 dark:bg-gray-900 p-6 text-center">
+        <h2 className="text-3xl font-bold text-gray-800 dark:text-white mb-2">Drill Complete! 🎉</h2>
+        <p className="text-gray-500 dark:text-gray-400 mb-6">{results.right} told apart, {results.mixedUp} mixed up</p>
+        <button onClick={onExit} className="px-6 py-3 bg-blue-600 text-white rounded-lg shadow hover:bg-blue-700">Back to Pairs</button>
+      </div>
+    );
+  }
+
+  const field = current.pair.field;
+  const other = otherField(field);
+  const sides = current.flip ? [current.b, current.a] : [current.a, current.b];
+
+  return (
+    <div className="flex flex-col h-screen bg-gray-50 dark:bg-gray-900 transition-colors duration-300">
+      <div className="flex justify-between items-center p-4 bg-white dark:bg-gray-800 shadow-sm shrink-0">
+        <button onClick={onExit} className="text-gray-500 dark:text-gray-400 hover:text-gray-800 dark:hover:text-white font-medium">←</button>
+        <span className="font-bold text-gray-700 dark:text-gray-200">Contrast Drill</span>
+        <span className="text-xs font-mono text-gray-400">{queue.length} left</span>
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-4 flex flex-col items-center justify-center">
+        <p className="text-sm text-gray-500 dark:text-gray-400 mb-4 text-center">
+          {revealed ? 'Did you tell them apart?' : `Name the ${other} and class of each.`}
+        </p>
+        <div className="grid grid-cols-2 gap-3 w-full max-w-2xl">
+          {sides.map((card, i) => (
+            <div key={card.id} className="bg-white dark:bg-gray-800 rounded-3xl shadow-xl border border-gray-100 dark:border-gray-700 p-5 text-center flex flex-col">
+              <div className="text-[10px] uppercase tracking-widest text-gray-400 font-bold mb-2">{field}</div>
+              <div className="text-2xl font-bold text-gray-900 dark:text-white break-words">{tallMan(card[field], sides[1 - i][field])}</div>
+              {revealed && (
+                <div className="mt-4 pt-4 border-t dark:border-gray-700 text-left">
+                  <div className="text-[10px] uppercase text-gray-400 mb-1">{other}</div>
+                  <div className="text-lg font-bold text-blue-600 dark:text-blue-400">{card[other]}</div>
+                  <div className="text-[10px] uppercase text-gray-400 mt-3 mb-1">Class</div>
+                  <div className="text-sm text-gray-700 dark:text-gray-300">{card.classification}</div>
+                  {card.notes && <NoteView text={card.notes} className="mt-3 text-sm text-gray-700 dark:text-gray-300" />}
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      </div>
+
+      <div className="p-4 bg-white dark:bg-gray-800 border-t dark:border-gray-700 shrink-0">
+        <div className="max-w-2xl mx-auto">
+          {!revealed ? (
+            <button onClick={() => setRevealed(true)} className="w-full py-4 bg-gray-900 dark:bg-blue-600 text-white rounded-2xl text-lg font-bold shadow-lg">Show Both</button>
+          ) : (
+            <div className="grid grid-cols-2 gap-3">
+              <button onClick={() => handleResult(true)} disabled={saving} className="py-4 bg-red-500 hover:bg-red-600 text-white rounded-2xl font-bold shadow disabled:opacity-60">Mixed Up</button>
+              <button onClick={() => handleResult(false)} disabled={saving} className="py-4 bg-green-500 hover:bg-green-600 text-white rounded-2xl font-bold shadow disabled:opacity-60">Told Apart</button>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,110 @@
+import React, { useState, useEffect } from 'react';
+import { Card, Deck } from '../types';
+import { dbService } from '../services/db';
+import { totalLapses } from '../services/srs';
+import { removeTag } from '../services/tags';
+import { LEECH_TAG } from '../constants';
+import { CardEditor } from './CardEditor';
+import { NoteView } from './NoteView';
+
+interface Props {
+  decks: Deck[];
+  onBack: () => void;
+}
+
+export const LeechesView: React.FC<Props> = ({ decks, onBack }) => {
+  const [leeches, setLeeches] = useState<Card[] | null>(null);
+  const [editingCard, setEditingCard] = useState<Card | null>(null);
+
+  const load = async () => {
+    const cards = await dbService.getCardsByTags([LEECH_TAG]);
+    setLeeches(cards.sort((a, b) => totalLapses(b) - totalLapses(a)));
+  };
+
+  useEffect(() => {
+    load();
+  }, []);
+
+  const deckName = (deckId: string) => decks.find(d => d.id === deckId)?.name || 'Unknown deck';
+
+  const save = async (card: Card) => {
+    await dbService.updateCard({ ...card, updatedAt: Date.now() });
+    await load();
+  };
+
+  const handleUnsuspend = (card: Card) => save({ ...card, suspended: false });
+
+  // Clearing the tag also un-suspends, otherwise the card would be hidden with nothing listing it
+  const handleClear = (card: Card) => save({ ...removeTag(card, LEECH_TAG), suspended: false });
+
+  return (
+    <div className="min-h-screen bg-gray-50 dark:bg-gray-900 transition-colors duration-300">
+      <div className="sticky top-0 z-20 bg-white dark:bg-gray-800 border-b dark:border-gray-700 shadow-sm p-4">
+        <div className="max-w-4xl mx-auto flex items-center justify-between">
+          <button onClick={onBack} className="text-gray-500 hover:text-gray-800 dark:text-gray-400 dark:hover:text-white font-medium flex items-center gap-1">
+             ← Back
+          </button>
+          <h2 className="text-lg font-bold text-gray-800 dark:text-white">Leeches</h2>
+          <span className="text-xs font-mono text-gray-400">{leeches ? `${leeches.length} cards` : ''}</span>
+        </div>
+      </div>
+
+      <main className="max-w-4xl mx-auto p-4 space-y-3">
+        <p className="text-sm text-gray-500 dark:text-gray-400">
+          Cards you keep forgetting. Rewrite the notes with a mnemonic or a different angle, then un-suspend them to study them again.
+        </p>
+        {!leeches ? (
+          <div className="text-center py-20 text-gray-400">Loading...</div>
+        ) : leeches.length === 0 ? (
+          <div className="text-center py-20 text-gray-400">No leeches. Nice work!</div>
+        ) : (
+          leeches.map(card => (
+            <div key={card.id} className="bg-white dark:bg-gray-800 rounded-2xl p-5 shadow-sm">
+              <div className="flex items-start justify-between gap-3">
+                <div className="min-w-0">
+                  <div className="font-bold text-gray-900 dark:text-white truncate">{card.generic} <span className="text-gray-400">→</span> {card.brand}</div>
+                  <div className="text-xs text-gray-500 dark:text-gray-400 mt-0.5">
+                    {deckName(card.deckId)} • {card.classification} • {totalLapses(card)} lapses
+                  </div>
+                </div>
+                {card.suspended && (
+                  <span className="shrink-0 text-xs font-bold uppercase px-2 py-1 rounded-full bg-yellow-100 text-yellow-800 dark:bg-yellow-900/40 dark:text-yellow-300">Suspended</span>
+                )}
+              </div>
+
+              {card.notes ? (
+                <NoteView text={card.notes} className="mt-3 text-sm text-gray-700 dark:text-gray-300" />
+              ) : (
+                <p className="mt-3 text-sm italic text-gray-400">No notes yet.</p>
+              )}
+
+              <div className="mt-4 flex flex-wrap gap-2">
+                <button onClick={() => setEditingCard(card)} className="px-4 py-2 bg-blue-600 text-white rounded-lg text-sm font-medium hover:bg-blue-700 transition">
+                  {card.notes ? 'Rewrite Notes' : 'Add Notes'}
+                </button>
+                {card.suspended && (
+                  <button onClick={() => handleUnsuspend(card)} className="px-4 py-2 bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-200 rounded-lg text-sm font-medium hover:bg-gray-200 dark:hover:bg-gray-600 transition">
+                    Un-suspend
+                  </button>
+                )}
+                <button onClick={() => handleClear(card)} className="px-4 py-2 text-gray-500 dark:text-gray-400 rounded-lg text-sm font-medium hover:bg-gray-100 dark:hover:bg-gray-700 transition">
+                  Not a Leech
+                </button>
+              </div>
+            </div>
+          ))
+        )}
+      </main>
+
+      {editingCard && (
+        <CardEditor
+            deckId={editingCard.deckId}
+            card={editingCard}
+            onSaved={() => { setEditingCard(null); load(); }}
+            onDeleted={() => { setEditingCard(null); load(); }}
+            onClose={() => setEditingCard(null)}
+        />
+      )}
+    </div>
+  );
+};
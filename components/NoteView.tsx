@@ -0,0 +1,34 @@
+import React from 'react';
+import { parseNote, InlineSegment } from '../services/markdownLite';
+
+const Inline = ({ segments }: { segments: InlineSegment[] }) => (
+  <>
+    {segments.map((seg, i) => {
+      if (seg.code) return <code key={i} className="font-mono text-[0.9em] bg-gray-100 dark:bg-gray-700 px-1 rounded">{seg.text}</code>;
+      if (seg.bold) return <strong key={i} className="font-bold text-gray-800 dark:text-gray-100">{seg.text}</strong>;
+      if (seg.italic) return <em key={i}>{seg.text}</em>;
+      return <React.Fragment key={i}>{seg.text}</React.Fragment>;
+    })}
+  </>
+);
+
+export const NoteView = ({ text, className = '' }: { text: string; className?: string }) => (
+  <div className={`space-y-2 text-left ${className}`}>
+    {parseNote(text).map((block, i) =>
+      block.type === 'list' ? (
+        <ul key={i} className="list-disc pl-5 space-y-0.5">
+          {block.lines.map((line, j) => <li key={j}><Inline segments={line} /></li>)}
+        </ul>
+      ) : (
+        <p key={i}>
+          {block.lines.map((line, j) => (
+            <React.Fragment key={j}>
+              {j > 0 && <br />}
+              <Inline segments={line} />
+            </React.Fragment>
+          ))}
+        </p>
+      )
+    )}
+  </div>
+);
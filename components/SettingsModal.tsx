@@ -1,22 +1,132 @@
 import React, { useState } from 'react';
-import { AppSettings } from '../types';
+import { AppSettings, LeechAction, RestoreMode, SchedulerAlgorithm, SessionParams, SessionPreset } from '../types';
+import { FSRS_DEFAULT_WEIGHTS, MIN_EASE_FACTOR, SESSION_PRESETS } from '../constants';
+import { dbService } from '../services/db';
+import { parseBackup, downloadBackup } from '../services/backup';
+import { fitFsrsWeights, getWeights } from '../services/fsrs';
+import { SCHEDULERS } from '../services/srs';
+
+type SessionCountField = Exclude<keyof SessionParams, 'intervals'>;
+
+const SESSION_FIELDS: { field: SessionCountField; label: string; min: number }[] = [
+  { field: 'batchSize', label: 'Batch size', min: 1 },
+  { field: 'rotateAfterConfident', label: 'Rotate after confident', min: 0 },
+  { field: 'reinforceEvery', label: 'Review easy card every', min: 1 },
+  { field: 'confidentStreak', label: 'Good answers to be confident', min: 1 },
+];
+
+const INTERVAL_FIELDS: { field: keyof SessionParams['intervals']; label: string }[] = [
+  { field: 'again', label: 'Again' },
+  { field: 'hard', label: 'Hard' },
+  { field: 'good', label: 'Good' },
+  { field: 'easy', label: 'Easy' },
+];
+
+type NumberSetting = 'newCardsPerDay' | 'reviewsPerDay' | 'sessionExpiryHours' | 'leechThreshold' | 'targetRetention' | 'initialEaseFactor' | 'easyBonus';
+
+// Each number input's `min`, enforced again when saving
+const NUMBER_MINIMUMS: Record<NumberSetting, number> = {
+  newCardsPerDay: 0,
+  reviewsPerDay: 0,
+  sessionExpiryHours: 1,
+  leechThreshold: 0,
+  targetRetention: 0.7,
+  initialEaseFactor: MIN_EASE_FACTOR,
+  easyBonus: 1,
+};
+
+// A cleared or unreadable number field keeps its last value instead of becoming 0
+const parseNumber = (value: string, previous: number): number => {
+  const parsed = parseFloat(value);
+  return Number.isFinite(parsed) ? parsed : previous;
+};
 
 interface Props {
   settings: AppSettings;
   onSave: (settings: AppSettings) => void;
   onClose: () => void;
+  onRestored: () => void;
 }
 
-export const SettingsModal: React.FC<Props> = ({ settings, onSave, onClose }) => {
+export const SettingsModal: React.FC<Props> = ({ settings, onSave, onClose, onRestored }) => {
   const [formData, setFormData] = useState<AppSettings>(settings);
+  const [restoreMode, setRestoreMode] = useState<RestoreMode>('merge');
+  const [backupStatus, setBackupStatus] = useState<{ text: string; isError: boolean } | null>(null);
+  const [fitStatus, setFitStatus] = useState<{ text: string; isError: boolean } | null>(null);
+  const [fitting, setFitting] = useState(false);
+
+  const handleFitWeights = async () => {
+    setFitting(true);
+    setFitStatus(null);
+    try {
+      const logs = await dbService.getAllLogs();
+      const result = fitFsrsWeights(logs, getWeights(formData));
+      setFormData({ ...formData, fsrsWeights: result.weights });
+      setFitStatus({
+        text: `Fitted on ${result.reviews} reviews (log loss ${result.lossBefore.toFixed(3)} → ${result.lossAfter.toFixed(3)}). Save to apply.`,
+        isError: false,
+      });
+    } catch (err) {
+      console.error(err);
+      setFitStatus({ text: err instanceof Error ? err.message : 'Failed to fit parameters.', isError: true });
+    } finally {
+      setFitting(false);
+    }
+  };
+
+  const handleExport = async () => {
+    try {
+      const backup = await dbService.exportBackup();
+      downloadBackup(backup);
+      setBackupStatus({ text: `Exported ${backup.cards.length} cards and ${backup.logs.length} reviews.`, isError: false });
+    } catch (err) {
+      console.error(err);
+      setBackupStatus({ text: 'Failed to export backup.', isError: true });
+    }
+  };
+
+  const handleRestoreFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    if (!e.target.files || e.target.files.length === 0) return;
+    const file = e.target.files[0];
+    e.target.value = '';
+
+    try {
+      const backup = parseBackup(await file.text());
+      if (restoreMode === 'replace' && !window.confirm('Replace ALL decks, cards and review history with this backup?')) return;
+      await dbService.restoreBackup(backup, restoreMode);
+      onRestored();
+    } catch (err) {
+      console.error(err);
+      setBackupStatus({ text: err instanceof Error ? err.message : 'Failed to restore backup.', isError: true });
+    }
+  };
 
-  // Helper to handle number inputs
-  const handleChange = (field: keyof AppSettings, value: string | boolean) => {
-    if (typeof value === 'boolean') {
-      setFormData({ ...formData, [field]: value });
-    } else {
-      setFormData({ ...formData, [field]: Number(value) });
+  const handleChange = (field: NumberSetting, value: string) => {
+    setFormData({ ...formData, [field]: parseNumber(value, formData[field]) });
+  };
+
+  // Minimums are applied here rather than while typing, so "0.85" is not cut short at "0."
+  const handleSave = () => {
+    const clamped = { ...formData };
+    for (const field of Object.keys(NUMBER_MINIMUMS) as NumberSetting[]) {
+      clamped[field] = Math.max(NUMBER_MINIMUMS[field], clamped[field]);
     }
+    onSave(clamped);
+  };
+
+  const handlePresetChange = (preset: SessionPreset | 'custom') => {
+    if (preset === 'custom') setFormData({ ...formData, sessionPreset: preset });
+    else setFormData({ ...formData, sessionPreset: preset, session: SESSION_PRESETS[preset] });
+  };
+
+  // Any manual tweak turns the preset into a custom one
+  const handleSessionChange = (field: SessionCountField, value: string, min: number) => {
+    setFormData({ ...formData, sessionPreset: 'custom', session: { ...formData.session, [field]: Math.max(min, parseNumber(value, formData.session[field])) } });
+  };
+
+  const handleIntervalChange = (field: keyof SessionParams['intervals'], value: string) => {
+    const intervals = { ...formData.session.intervals, [field]: Math.max(1, parseNumber(value, formData.session.intervals[field])) };
+    setFormData({ ...formData, sessionPreset: 'custom', session: { ...formData.session, intervals } });
   };
 
   const handleLearningStepsChange = (val: string) => {
@@ -42,6 +152,7 @@ export const SettingsModal: React.FC<Props> = ({ settings, onSave, onClose }) =>
                 <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">New cards / day</label>
                 <input 
                   type="number" 
+                  min="0"
                   value={formData.newCardsPerDay}
                   onChange={(e) => handleChange('newCardsPerDay', e.target.value)}
                   className="w-full bg-gray-50 dark:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded-lg p-2.5 text-gray-900 dark:text-white focus:ring-2 focus:ring-blue-500 outline-none"
@@ -51,12 +162,105 @@ export const SettingsModal: React.FC<Props> = ({ settings, onSave, onClose }) =>
                 <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Reviews / day</label>
                 <input 
                   type="number" 
+                  min="0"
                   value={formData.reviewsPerDay}
                   onChange={(e) => handleChange('reviewsPerDay', e.target.value)}
                   className="w-full bg-gray-50 dark:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded-lg p-2.5 text-gray-900 dark:text-white focus:ring-2 focus:ring-blue-500 outline-none"
                 />
               </div>
             </div>
+            <div className="mt-4">
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Keep unfinished sessions (hours)</label>
+              <input 
+                type="number" 
+                min="1"
+                value={formData.sessionExpiryHours}
+                onChange={(e) => handleChange('sessionExpiryHours', e.target.value)}
+                className="w-full bg-gray-50 dark:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded-lg p-2.5 text-gray-900 dark:text-white focus:ring-2 focus:ring-blue-500 outline-none"
+              />
+              <p className="text-xs text-gray-500 mt-1">Older sessions are no longer offered for resume.</p>
+            </div>
+          </section>
+
+          {/* Session Pace */}
+          <section>
+            <h3 className="text-sm uppercase tracking-wide text-blue-600 font-bold mb-3">Session Pace</h3>
+            <div className="space-y-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Preset</label>
+                <select
+                  value={formData.sessionPreset}
+                  onChange={(e) => handlePresetChange(e.target.value as SessionPreset | 'custom')}
+                  className="w-full bg-gray-50 dark:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded-lg p-2.5 text-gray-900 dark:text-white focus:ring-2 focus:ring-blue-500 outline-none"
+                >
+                  <option value="gentle">Gentle (small batches, more repetition)</option>
+                  <option value="standard">Standard</option>
+                  <option value="intense">Intense (large batches, longer gaps)</option>
+                  <option value="custom">Custom</option>
+                </select>
+              </div>
+              <div className="grid grid-cols-2 gap-4">
+                {SESSION_FIELDS.map(({ field, label, min }) => (
+                  <div key={field}>
+                    <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">{label}</label>
+                    <input 
+                      type="number" 
+                      min={min}
+                      value={formData.session[field]}
+                      onChange={(e) => handleSessionChange(field, e.target.value, min)}
+                      className="w-full bg-gray-50 dark:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded-lg p-2.5 text-gray-900 dark:text-white focus:ring-2 focus:ring-blue-500 outline-none"
+                    />
+                  </div>
+                ))}
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Drill intervals (minutes)</label>
+                <div className="grid grid-cols-4 gap-2">
+                  {INTERVAL_FIELDS.map(({ field, label }) => (
+                    <div key={field}>
+                      <input 
+                        type="number" 
+                        min="1"
+                        aria-label={`${label} interval in minutes`}
+                        value={formData.session.intervals[field]}
+                        onChange={(e) => handleIntervalChange(field, e.target.value)}
+                        className="w-full bg-gray-50 dark:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded-lg p-2.5 text-gray-900 dark:text-white focus:ring-2 focus:ring-blue-500 outline-none"
+                      />
+                      <p className="text-xs text-gray-500 mt-1 text-center">{label}</p>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            </div>
+          </section>
+
+          {/* Leeches */}
+          <section>
+            <h3 className="text-sm uppercase tracking-wide text-blue-600 font-bold mb-3">Leeches</h3>
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Leech threshold (lapses)</label>
+                <input 
+                  type="number" 
+                  min="0"
+                  value={formData.leechThreshold}
+                  onChange={(e) => handleChange('leechThreshold', e.target.value)}
+                  className="w-full bg-gray-50 dark:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded-lg p-2.5 text-gray-900 dark:text-white focus:ring-2 focus:ring-blue-500 outline-none"
+                />
+                <p className="text-xs text-gray-500 mt-1">0 turns leech detection off.</p>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">When a card becomes a leech</label>
+                <select
+                  value={formData.leechAction}
+                  onChange={(e) => setFormData({ ...formData, leechAction: e.target.value as LeechAction })}
+                  className="w-full bg-gray-50 dark:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded-lg p-2.5 text-gray-900 dark:text-white focus:ring-2 focus:ring-blue-500 outline-none"
+                >
+                  <option value="suspend">Tag and suspend</option>
+                  <option value="tag">Tag only</option>
+                </select>
+              </div>
+            </div>
           </section>
 
           {/* Learning Steps */}
@@ -75,12 +279,65 @@ export const SettingsModal: React.FC<Props> = ({ settings, onSave, onClose }) =>
                 <p className="text-xs text-gray-500 mt-1">Comma separated values (e.g. "1, 10")</p>
               </div>
               
+              <div>
+                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Scheduler</label>
+                <select
+                  value={formData.algorithm}
+                  onChange={(e) => setFormData({ ...formData, algorithm: e.target.value as SchedulerAlgorithm })}
+                  className="w-full bg-gray-50 dark:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded-lg p-2.5 text-gray-900 dark:text-white focus:ring-2 focus:ring-blue-500 outline-none"
+                >
+                  {(Object.keys(SCHEDULERS) as SchedulerAlgorithm[]).map(a => (
+                    <option key={a} value={a}>{SCHEDULERS[a].label}</option>
+                  ))}
+                </select>
+                <p className="text-xs text-gray-500 mt-1">Cards keep their progress when you switch; the other scheduler picks up from their current interval.</p>
+              </div>
+
+              {formData.algorithm === 'fsrs' ? (
+                <div className="space-y-3">
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Target Retention</label>
+                    <input
+                      type="number"
+                      step="0.01"
+                      min="0.7"
+                      max="0.99"
+                      value={formData.targetRetention}
+                      onChange={(e) => handleChange('targetRetention', e.target.value)}
+                      className="w-full bg-gray-50 dark:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded-lg p-2.5 text-gray-900 dark:text-white focus:ring-2 focus:ring-blue-500 outline-none"
+                    />
+                    <p className="text-xs text-gray-500 mt-1">Probability of recall when a card comes due. Higher means more reviews.</p>
+                  </div>
+                  <div className="flex gap-2">
+                    <button
+                      onClick={handleFitWeights}
+                      disabled={fitting}
+                      className="flex-1 py-2.5 bg-gray-100 dark:bg-gray-700 hover:bg-gray-200 dark:hover:bg-gray-600 text-gray-800 dark:text-white rounded-lg font-medium transition disabled:opacity-50"
+                    >
+                      {fitting ? 'Fitting...' : 'Fit Parameters to My Reviews'}
+                    </button>
+                    <button
+                      onClick={() => { setFormData({ ...formData, fsrsWeights: [] }); setFitStatus(null); }}
+                      className="px-4 py-2.5 text-gray-600 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-700 rounded-lg font-medium transition"
+                    >
+                      Reset
+                    </button>
+                  </div>
+                  <p className="text-xs font-mono text-gray-400 break-all">
+                    {formData.fsrsWeights.length === FSRS_DEFAULT_WEIGHTS.length ? 'Custom' : 'Default'} weights: {getWeights(formData).join(', ')}
+                  </p>
+                  {fitStatus && (
+                    <p className={`text-sm ${fitStatus.isError ? 'text-red-500' : 'text-green-600'}`}>{fitStatus.text}</p>
+                  )}
+                </div>
+              ) : (
               <div className="grid grid-cols-2 gap-4">
                 <div>
                    <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Starting Ease</label>
                    <input 
                       type="number" 
                       step="0.1"
+                      min={MIN_EASE_FACTOR}
                       value={formData.initialEaseFactor}
                       onChange={(e) => handleChange('initialEaseFactor', e.target.value)}
                       className="w-full bg-gray-50 dark:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded-lg p-2.5 text-gray-900 dark:text-white focus:ring-2 focus:ring-blue-500 outline-none"
@@ -91,12 +348,45 @@ export const SettingsModal: React.FC<Props> = ({ settings, onSave, onClose }) =>
                    <input 
                       type="number" 
                       step="0.1"
+                      min="1"
                       value={formData.easyBonus}
                       onChange={(e) => handleChange('easyBonus', e.target.value)}
                       className="w-full bg-gray-50 dark:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded-lg p-2.5 text-gray-900 dark:text-white focus:ring-2 focus:ring-blue-500 outline-none"
                     />
                 </div>
               </div>
+              )}
+            </div>
+          </section>
+
+          {/* Backup */}
+          <section>
+            <h3 className="text-sm uppercase tracking-wide text-blue-600 font-bold mb-3">Backup &amp; Restore</h3>
+            <div className="space-y-3">
+              <button 
+                onClick={handleExport}
+                className="w-full py-2.5 bg-gray-100 dark:bg-gray-700 hover:bg-gray-200 dark:hover:bg-gray-600 text-gray-800 dark:text-white rounded-lg font-medium transition"
+              >
+                Export Backup (JSON)
+              </button>
+              <div className="flex items-center gap-4 text-sm text-gray-700 dark:text-gray-300">
+                <label className="flex items-center gap-1.5">
+                  <input type="radio" checked={restoreMode === 'merge'} onChange={() => setRestoreMode('merge')} />
+                  Merge by id
+                </label>
+                <label className="flex items-center gap-1.5">
+                  <input type="radio" checked={restoreMode === 'replace'} onChange={() => setRestoreMode('replace')} />
+                  Replace all
+                </label>
+              </div>
+              <label className="block w-full py-2.5 text-center bg-gray-100 dark:bg-gray-700 hover:bg-gray-200 dark:hover:bg-gray-600 text-gray-800 dark:text-white rounded-lg font-medium transition cursor-pointer">
+                Restore from Backup...
+                <input type="file" accept="application/json,.json" onChange={handleRestoreFile} className="hidden" />
+              </label>
+              <p className="text-xs text-gray-500">Merge keeps your current settings. Replace also restores the backup's settings.</p>
+              {backupStatus && (
+                <p className={`text-sm ${backupStatus.isError ? 'text-red-500' : 'text-green-600'}`}>{backupStatus.text}</p>
+              )}
             </div>
           </section>
 
@@ -109,7 +399,7 @@ export const SettingsModal: React.FC<Props> = ({ settings, onSave, onClose }) =>
                   <input 
                     type="checkbox" 
                     checked={formData.darkMode} 
-                    onChange={(e) => handleChange('darkMode', e.target.checked)}
+                    onChange={(e) => setFormData({ ...formData, darkMode: e.target.checked })}
                     className="sr-only peer" 
                   />
                   <div className="w-11 h-6 bg-gray-200 peer-focus:outline-none peer-focus:ring-4 peer-focus:ring-blue-300 dark:peer-focus:ring-blue-800 rounded-full peer dark:bg-gray-600 peer-checked:after:translate-x-full peer-checked:after:border-white after:content-[''] after:absolute after:top-[2px] after:left-[2px] after:bg-white after:border-gray-300 after:border after:rounded-full after:h-5 after:w-5 after:transition-all dark:border-gray-600 peer-checked:bg-blue-600"></div>
@@ -126,7 +416,7 @@ export const SettingsModal: React.FC<Props> = ({ settings, onSave, onClose }) =>
             Cancel
           </button>
           <button 
-            onClick={() => onSave(formData)} 
+            onClick={handleSave} 
             className="px-5 py-2.5 bg-blue-600 text-white rounded-lg font-medium shadow-lg hover:bg-blue-700 transition"
           >
             Save Changes
@@ -0,0 +1,145 @@
+import React, { useState, useEffect } from 'react';
+import { Deck } from '../types';
+import { dbService } from '../services/db';
+import { buildStats, StatsSummary, DayCount, RetentionRow } from '../services/stats';
+import { totalLapses } from '../services/srs';
+
+interface Props {
+  decks: Deck[];
+  onBack: () => void;
+}
+
+const formatDay = (time: number) => new Date(time).toLocaleDateString(undefined, { month: 'short', day: 'numeric' });
+
+const BarChart = ({ data, color }: { data: DayCount[]; color: string }) => {
+  const max = Math.max(1, ...data.map(d => d.count));
+  return (
+    <div>
+      <div className="flex items-end gap-[2px] h-32">
+        {data.map(d => (
+          <div key={d.dayStart} className="flex-1 h-full flex items-end" title={`${formatDay(d.dayStart)}: ${d.count}`}>
+            <div className={`w-full rounded-t ${color}`} style={{ height: `${(d.count / max) * 100}%`, minHeight: d.count > 0 ? '2px' : 0 }} />
+          </div>
+        ))}
+      </div>
+      <div className="flex justify-between text-[10px] text-gray-400 mt-1">
+        <span>{formatDay(data[0].dayStart)}</span>
+        <span>{formatDay(data[data.length - 1].dayStart)}</span>
+      </div>
+    </div>
+  );
+};
+
+const RetentionTable = ({ rows }: { rows: RetentionRow[] }) => {
+  if (rows.length === 0) return <div className="text-sm text-gray-400">No reviews yet.</div>;
+  return (
+    <div className="space-y-2">
+      {rows.map(r => (
+        <div key={r.key}>
+          <div className="flex justify-between text-sm">
+            <span className="text-gray-700 dark:text-gray-200 truncate pr-2">{r.label}</span>
+            <span className="font-mono text-gray-500 dark:text-gray-400 shrink-0">{Math.round(r.rate * 100)}% · {r.total}</span>
+          </div>
+          <div className="h-1.5 bg-gray-100 dark:bg-gray-700 rounded-full overflow-hidden">
+            <div
+              className={`h-full ${r.rate >= 0.85 ? 'bg-green-500' : r.rate >= 0.7 ? 'bg-orange-500' : 'bg-red-500'}`}
+              style={{ width: `${r.rate * 100}%` }}
+            />
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+const Section = ({ title, children }: { title: string; children: React.ReactNode }) => (
+  <section className="bg-white dark:bg-gray-800 rounded-2xl p-5 shadow-sm">
+    <h3 className="text-sm uppercase tracking-wide text-blue-600 font-bold mb-4">{title}</h3>
+    {children}
+  </section>
+);
+
+export const StatsView: React.FC<Props> = ({ decks, onBack }) => {
+  const [stats, setStats] = useState<StatsSummary | null>(null);
+
+  useEffect(() => {
+    const load = async () => {
+      const [cards, logs] = await Promise.all([dbService.getAllCards(), dbService.getAllLogs()]);
+      setStats(buildStats(decks, cards, logs));
+    };
+    load();
+  }, [decks]);
+
+  const deckName = (deckId: string) => decks.find(d => d.id === deckId)?.name || '';
+
+  return (
+    <div className="min-h-screen bg-gray-50 dark:bg-gray-900 transition-colors duration-300">
+      <div className="sticky top-0 z-20 bg-white dark:bg-gray-800 border-b dark:border-gray-700 shadow-sm p-4">
+        <div className="max-w-4xl mx-auto flex items-center justify-between">
+          <button onClick={onBack} className="text-gray-500 hover:text-gray-800 dark:text-gray-400 dark:hover:text-white font-medium flex items-center gap-1">
+             ← Back
+          </button>
+          <h2 className="text-lg font-bold text-gray-800 dark:text-white">Statistics</h2>
+          <span className="text-xs font-mono text-gray-400">{stats ? `${stats.totalReviews} reviews` : ''}</span>
+        </div>
+      </div>
+
+      {!stats ? (
+        <div className="text-center py-20 text-gray-400">Loading...</div>
+      ) : (
+        <main className="max-w-4xl mx-auto p-4 space-y-4">
+          <Section title="Reviews per Day (30 days)">
+            <BarChart data={stats.reviewsPerDay} color="bg-blue-500" />
+          </Section>
+
+          <Section title="Due Forecast (30 days)">
+            <BarChart data={stats.forecast} color="bg-green-500" />
+          </Section>
+
+          <div className="grid md:grid-cols-2 gap-4">
+            <Section title="Retention by Deck">
+              <RetentionTable rows={stats.retentionByDeck} />
+            </Section>
+            <Section title="Retention by Class">
+              <RetentionTable rows={stats.retentionByClass} />
+            </Section>
+          </div>
+
+          <Section title="Retention by Direction">
+            <RetentionTable rows={stats.retentionByDirection} />
+          </Section>
+
+          <Section title="Most Lapsed / Hardest Cards">
+            {stats.troubleCards.length === 0 ? (
+              <div className="text-sm text-gray-400">No lapses yet.</div>
+            ) : (
+              <table className="w-full text-left text-sm">
+                <thead className="text-[10px] uppercase tracking-wider text-gray-500 dark:text-gray-400">
+                  <tr>
+                    <th className="py-2">Drug</th>
+                    <th className="py-2">Class</th>
+                    <th className="py-2 text-right">Lapses</th>
+                    <th className="py-2 text-right">Difficulty</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-100 dark:divide-gray-700">
+                  {stats.troubleCards.map(c => (
+                    <tr key={c.id}>
+                      <td className="py-2">
+                        <div className="font-medium text-gray-800 dark:text-gray-200">{c.generic} <span className="text-blue-600 dark:text-blue-400">({c.brand})</span></div>
+                        <div className="text-[10px] text-gray-400">{deckName(c.deckId)}</div>
+                      </td>
+                      <td className="py-2 text-xs text-gray-500 dark:text-gray-400">{c.classification}</td>
+                      <td className="py-2 text-right font-mono text-red-500">{totalLapses(c)}</td>
+                      <td className="py-2 text-right font-mono text-orange-500">{c.difficultyScore}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </Section>
+        </main>
+      )}
+    </div>
+  );
+};
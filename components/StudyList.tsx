@@ -1,5 +1,9 @@
 import React, { useState, useMemo } from 'react';
 import { Card, Deck } from '../types';
+import { dbService } from '../services/db';
+import { parseTags, hasTag, addTag, removeTag, collectTags } from '../services/tags';
+import { buryUntil, isBuried } from '../services/queue';
+import { CardEditor } from './CardEditor';
 
 interface Props {
   deck: Deck;
@@ -9,12 +13,18 @@ interface Props {
 
 type ListMode = 'generic_visible' | 'brand_visible' | 'both_visible';
 
-export const StudyList: React.FC<Props> = ({ deck, cards, onBack }) => {
+export const StudyList: React.FC<Props> = ({ deck, cards: initialCards, onBack }) => {
+  const [cards, setCards] = useState<Card[]>(initialCards);
+  const [editingCard, setEditingCard] = useState<Card | 'new' | null>(null);
   const [mode, setMode] = useState<ListMode>('generic_visible');
   const [search, setSearch] = useState('');
   const [sortByClass, setSortByClass] = useState(true);
   const [groupByClass, setGroupByClass] = useState(false);
   const [revealedIds, setRevealedIds] = useState<Set<string>>(new Set());
+  const [selectedTags, setSelectedTags] = useState<string[]>([]);
+  const [bulkTag, setBulkTag] = useState('');
+
+  const allTags = useMemo(() => collectTags(cards), [cards]);
 
   const processedCards = useMemo(() => {
     let result = [...cards];
@@ -25,10 +35,17 @@ export const StudyList: React.FC<Props> = ({ deck, cards, onBack }) => {
       result = result.filter(c => 
         c.generic.toLowerCase().includes(s) || 
         c.brand.toLowerCase().includes(s) || 
-        c.classification.toLowerCase().includes(s)
+        c.classification.toLowerCase().includes(s) ||
+        (c.notes || '').toLowerCase().includes(s) ||
+        (c.tags || []).some(t => t.includes(s))
       );
     }
 
+    // Tag chips narrow the list to cards carrying every selected tag
+    if (selectedTags.length > 0) {
+      result = result.filter(c => selectedTags.every(t => hasTag(c, t)));
+    }
+
     // Sort
     if (sortByClass) {
       result.sort((a, b) => {
@@ -41,7 +58,7 @@ export const StudyList: React.FC<Props> = ({ deck, cards, onBack }) => {
     }
 
     return result;
-  }, [cards, search, sortByClass]);
+  }, [cards, search, sortByClass, selectedTags]);
 
   // Grouping logic
   const groups = useMemo(() => {
@@ -62,6 +79,47 @@ export const StudyList: React.FC<Props> = ({ deck, cards, onBack }) => {
     setRevealedIds(newSet);
   };
 
+  const handleCardSaved = (saved: Card) => {
+    setCards(prev => prev.some(c => c.id === saved.id) ? prev.map(c => c.id === saved.id ? saved : c) : [...prev, saved]);
+    setEditingCard(null);
+  };
+
+  const toggleTag = (tag: string) => {
+    setSelectedTags(prev => prev.includes(tag) ? prev.filter(t => t !== tag) : [...prev, tag]);
+  };
+
+  // Applies to the current search results, not the whole deck
+  const handleBulkTag = async (action: 'add' | 'remove') => {
+    const tags = parseTags(bulkTag);
+    if (tags.length === 0 || processedCards.length === 0) return;
+
+    const now = Date.now();
+    const changed = processedCards
+      .filter(c => tags.some(t => action === 'add' ? !hasTag(c, t) : hasTag(c, t)))
+      .map(c => ({ ...tags.reduce((card, t) => action === 'add' ? addTag(card, t) : removeTag(card, t), c), updatedAt: now }));
+    if (changed.length === 0) return;
+
+    await dbService.updateCards(changed);
+    const byId = new Map(changed.map(c => [c.id, c]));
+    setCards(prev => prev.map(c => byId.get(c.id) || c));
+    setBulkTag('');
+  };
+
+  // Toggles; un-burying and un-suspending both put the card straight back into rotation
+  const handleToggleHidden = async (card: Card, action: 'bury' | 'suspend') => {
+    const now = Date.now();
+    const updated: Card = action === 'suspend'
+      ? { ...card, suspended: !card.suspended, updatedAt: now }
+      : { ...card, buriedUntil: isBuried(card, now) ? undefined : buryUntil(now), updatedAt: now };
+    await dbService.updateCard(updated);
+    setCards(prev => prev.map(c => c.id === updated.id ? updated : c));
+  };
+
+  const handleCardDeleted = (cardId: string) => {
+    setCards(prev => prev.filter(c => c.id !== cardId));
+    setEditingCard(null);
+  };
+
   const isGenericHidden = mode === 'brand_visible';
   const isBrandHidden = mode === 'generic_visible';
 
@@ -69,17 +127,31 @@ export const StudyList: React.FC<Props> = ({ deck, cards, onBack }) => {
     const isRevealed = revealedIds.has(card.id);
     const showGeneric = !isGenericHidden || isRevealed;
     const showBrand = !isBrandHidden || isRevealed;
+    const buried = isBuried(card);
 
     return (
       <tr 
           key={card.id} 
           onClick={() => toggleReveal(card.id)}
-          className={`cursor-pointer transition-colors ${idx % 2 === 0 ? 'bg-white dark:bg-gray-900' : 'bg-gray-50/50 dark:bg-gray-800/50'} hover:bg-blue-50 dark:hover:bg-blue-900/20`}
+          className={`cursor-pointer transition-colors ${idx % 2 === 0 ? 'bg-white dark:bg-gray-900' : 'bg-gray-50/50 dark:bg-gray-800/50'} hover:bg-blue-50 dark:hover:bg-blue-900/20 ${card.suspended || buried ? 'opacity-60' : ''}`}
       >
           <td className="p-4 relative">
               <span className={`${showGeneric ? 'opacity-100' : 'opacity-0'} transition-opacity text-gray-800 dark:text-gray-200 font-medium`}>
                   {card.generic}
               </span>
+              {(card.suspended || buried) && (
+                  <div className="flex gap-1 mt-1">
+                      {card.suspended && <span className="text-[10px] font-bold uppercase bg-yellow-100 dark:bg-yellow-900/40 text-yellow-800 dark:text-yellow-300 px-1.5 rounded">Suspended</span>}
+                      {buried && <span className="text-[10px] font-bold uppercase bg-gray-200 dark:bg-gray-700 text-gray-600 dark:text-gray-300 px-1.5 rounded">Buried</span>}
+                  </div>
+              )}
+              {card.tags && card.tags.length > 0 && (
+                  <div className="flex flex-wrap gap-1 mt-1">
+                      {card.tags.map(t => (
+                          <span key={t} className="text-[10px] bg-purple-50 dark:bg-purple-900/30 text-purple-600 dark:text-purple-300 px-1.5 rounded">#{t}</span>
+                      ))}
+                  </div>
+              )}
               {!showGeneric && <div className="absolute inset-4 bg-gray-200 dark:bg-gray-700 rounded animate-pulse"></div>}
           </td>
           <td className="p-4 relative border-l border-gray-100 dark:border-gray-800">
@@ -91,6 +163,33 @@ export const StudyList: React.FC<Props> = ({ deck, cards, onBack }) => {
           <td className="p-4 text-xs font-semibold text-gray-400 dark:text-gray-500 border-l border-gray-100 dark:border-gray-800">
               {card.classification || 'N/A'}
           </td>
+          <td className="p-2">
+            <div className="flex flex-col items-center">
+              <button 
+                  onClick={(e) => { e.stopPropagation(); setEditingCard(card); }}
+                  className="text-gray-400 hover:text-blue-600 dark:hover:text-blue-400 p-1"
+                  title={card.notes ? `Edit card\n\n${card.notes}` : 'Edit card'}
+              >
+                  {card.notes ? '✎•' : '✎'}
+              </button>
+              <button 
+                  onClick={(e) => { e.stopPropagation(); handleToggleHidden(card, 'bury'); }}
+                  className={`p-1 text-xs ${buried ? 'text-gray-700 dark:text-gray-200' : 'text-gray-400 hover:text-blue-600 dark:hover:text-blue-400'}`}
+                  title={buried ? 'Unbury' : 'Bury until tomorrow'}
+                  aria-pressed={buried}
+              >
+                  ⤓
+              </button>
+              <button 
+                  onClick={(e) => { e.stopPropagation(); handleToggleHidden(card, 'suspend'); }}
+                  className={`p-1 text-xs ${card.suspended ? 'text-yellow-600 dark:text-yellow-400' : 'text-gray-400 hover:text-blue-600 dark:hover:text-blue-400'}`}
+                  title={card.suspended ? 'Unsuspend' : 'Suspend'}
+                  aria-pressed={!!card.suspended}
+              >
+                  ⏸
+              </button>
+            </div>
+          </td>
       </tr>
     );
   };
@@ -105,6 +204,14 @@ export const StudyList: React.FC<Props> = ({ deck, cards, onBack }) => {
           </button>
           <h2 className="text-lg font-bold text-gray-800 dark:text-white truncate max-w-xs">{deck.name} List</h2>
           <div className="flex gap-2">
+              {!deck.filter && (
+                  <button 
+                      onClick={() => setEditingCard('new')}
+                      className="text-xs px-2 py-1 rounded border bg-blue-600 border-blue-600 text-white"
+                  >
+                      + Add
+                  </button>
+              )}
               <button 
                   onClick={() => setGroupByClass(!groupByClass)}
                   className={`text-xs px-2 py-1 rounded border ${groupByClass ? 'bg-blue-100 border-blue-300 text-blue-700' : 'bg-gray-100 border-gray-300 text-gray-600'}`}
@@ -144,12 +251,50 @@ export const StudyList: React.FC<Props> = ({ deck, cards, onBack }) => {
 
              <input 
                 type="text" 
-                placeholder="Search name or class..." 
+                placeholder="Search name, class or notes..." 
                 value={search}
                 onChange={e => setSearch(e.target.value)}
                 className="w-full md:w-64 bg-gray-50 dark:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded-lg px-4 py-2 text-sm outline-none focus:ring-2 focus:ring-blue-500 dark:text-white"
              />
         </div>
+
+        {allTags.length > 0 && (
+            <div className="flex flex-wrap gap-1.5 mt-3">
+                {allTags.map(tag => (
+                    <button 
+                        key={tag}
+                        onClick={() => toggleTag(tag)}
+                        className={`text-xs px-2 py-0.5 rounded-full border transition ${selectedTags.includes(tag) ? 'bg-purple-600 border-purple-600 text-white' : 'bg-gray-50 dark:bg-gray-700 border-gray-300 dark:border-gray-600 text-gray-600 dark:text-gray-300'}`}
+                    >
+                        #{tag}
+                    </button>
+                ))}
+            </div>
+        )}
+
+        <div className="flex items-center gap-2 mt-3">
+             <input 
+                type="text" 
+                placeholder="Tag..." 
+                value={bulkTag}
+                onChange={e => setBulkTag(e.target.value)}
+                className="flex-1 md:flex-none md:w-40 bg-gray-50 dark:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded-lg px-3 py-1 text-xs outline-none focus:ring-2 focus:ring-blue-500 dark:text-white"
+             />
+             <button 
+                onClick={() => handleBulkTag('add')}
+                disabled={!bulkTag.trim()}
+                className="text-xs px-2 py-1 rounded border bg-gray-100 border-gray-300 text-gray-600 disabled:opacity-50"
+             >
+                Tag {processedCards.length}
+             </button>
+             <button 
+                onClick={() => handleBulkTag('remove')}
+                disabled={!bulkTag.trim()}
+                className="text-xs px-2 py-1 rounded border bg-gray-100 border-gray-300 text-gray-600 disabled:opacity-50"
+             >
+                Untag {processedCards.length}
+             </button>
+        </div>
       </div>
 
       {/* Table Content */}
@@ -157,9 +302,10 @@ export const StudyList: React.FC<Props> = ({ deck, cards, onBack }) => {
         <table className="w-full text-left border-collapse table-fixed">
             <thead className="bg-gray-50 dark:bg-gray-800 sticky top-0 shadow-sm z-10 text-[10px] uppercase tracking-wider text-gray-500 dark:text-gray-400">
                 <tr>
-                    <th className="p-4 w-[35%]">Generic Name</th>
-                    <th className="p-4 w-[35%]">Brand Name</th>
-                    <th className="p-4 w-[30%]">Classification</th>
+                    <th className="p-4 w-[32%]">Generic Name</th>
+                    <th className="p-4 w-[32%]">Brand Name</th>
+                    <th className="p-4 w-[28%]">Classification</th>
+                    <th className="p-4 w-[8%]"></th>
                 </tr>
             </thead>
             <tbody className="divide-y divide-gray-100 dark:divide-gray-800">
@@ -167,7 +313,7 @@ export const StudyList: React.FC<Props> = ({ deck, cards, onBack }) => {
                   groups.map(([className, classCards]) => (
                     <React.Fragment key={className}>
                       <tr className="bg-blue-50/50 dark:bg-blue-900/10">
-                        <td colSpan={3} className="px-4 py-2 text-xs font-bold text-blue-600 dark:text-blue-400 uppercase tracking-widest border-y dark:border-gray-700">
+                        <td colSpan={4} className="px-4 py-2 text-xs font-bold text-blue-600 dark:text-blue-400 uppercase tracking-widest border-y dark:border-gray-700">
                           {className} ({classCards.length})
                         </td>
                       </tr>
@@ -185,6 +331,16 @@ export const StudyList: React.FC<Props> = ({ deck, cards, onBack }) => {
             </div>
         )}
       </div>
+
+      {editingCard && (
+        <CardEditor 
+            deckId={deck.id} 
+            card={editingCard === 'new' ? null : editingCard} 
+            onSaved={handleCardSaved} 
+            onDeleted={handleCardDeleted} 
+            onClose={() => setEditingCard(null)} 
+        />
+      )}
     </div>
   );
 };
\ No newline at end of file
@@ -1,11 +1,23 @@
 import React, { useState, useEffect, useRef } from 'react';
-import { Card, Deck, Grade, StudyMode, SessionCard } from '../types';
+import { Card, Deck, Grade, StudyMode, SessionCard, ScheduleMode, AppSettings, Direction, ReviewLogState, SchedulingState } from '../types';
 import { dbService } from '../services/db';
-import { COLORS, INTERVALS } from '../constants';
+import { scheduleReview, getSchedulingDescription, getSchedulingState, applySchedulingState, isCardDue, totalLapses } from '../services/srs';
+import { getDailyQueue, buryUntil, isStudyable } from '../services/queue';
+import { buildCramQueue, cramNextReview, describeCramInterval, getCramState, daysUntilExam } from '../services/cram';
+import { checkAnswer, AnswerCheck, DiffSegment } from '../services/answerCheck';
+import { DIRECTION_FIELDS, getModeDirections, buildChoices, isChoiceCorrect } from '../services/quiz';
+import { isLeech, isLeechLapse, markLeech } from '../services/leeches';
+import { removeTag } from '../services/tags';
+import { CardEditor } from './CardEditor';
+import { NoteView } from './NoteView';
+import { COLORS, LEECH_TAG } from '../constants';
 
 interface Props {
   deck: Deck;
   mode: StudyMode;
+  scheduleMode: ScheduleMode;
+  settings: AppSettings;
+  resume?: boolean; // continue the deck's saved session instead of building a new one
   onExit: () => void;
 }
 
@@ -19,27 +31,131 @@ function shuffle<T>(array: T[]): T[] {
   return array;
 }
 
-export const StudySession: React.FC<Props> = ({ deck, mode, onExit }) => {
+const toStoredCard = (card: SessionCard): Card => {
+  const { sessionState, sessionDueTime, sessionConfident, sessionGoodStreak, lastShownAt, ...stored } = card;
+  return stored;
+};
+
+type SessionFields = Pick<SessionCard, 'sessionState' | 'sessionDueTime' | 'sessionConfident' | 'sessionGoodStreak' | 'lastShownAt'>;
+
+const toSessionFields = ({ sessionState, sessionDueTime, sessionConfident, sessionGoodStreak, lastShownAt }: SessionCard): SessionFields =>
+  ({ sessionState, sessionDueTime, sessionConfident, sessionGoodStreak, lastShownAt });
+
+const toLogState = ({ state, intervalDays, easeFactor }: SchedulingState): ReviewLogState => ({ state, intervalDays, easeFactor });
+
+// Everything needed to take one grade back
+interface UndoEntry {
+  stored: Card; // the graded card as persisted before the grade
+  session: Map<string, SessionFields>; // a grade can move other cards between batch and pool too
+  direction: Direction;
+  logKey: number;
+  cardsSinceReinforcement: number;
+  lastShownId: string | null;
+}
+
+// Only review state is rolled back; edits made since the grade keep their content
+const revertReviewState = (current: Card, before: Card): Card => ({
+  ...before,
+  generic: current.generic,
+  brand: current.brand,
+  classification: current.classification,
+  notes: current.notes,
+  // A leech tag the grade added goes with it
+  tags: isLeech(before) ? current.tags : removeTag(current, LEECH_TAG).tags,
+  userEdited: current.userEdited,
+});
+
+const MILLISECONDS_IN_MINUTE = 60 * 1000;
+
+const formatMinutes = (minutes: number) => minutes < 60 ? `${minutes}m` : `${Math.round(minutes / 6) / 10}h`;
+
+const GRADE_LABELS: Record<Grade, string> = {
+  [Grade.Again]: 'Again',
+  [Grade.Hard]: 'Hard',
+  [Grade.Good]: 'Good',
+  [Grade.Easy]: 'Easy',
+};
+
+export const StudySession: React.FC<Props> = ({ deck, mode, scheduleMode, settings, resume, onExit }) => {
   const [cards, setCards] = useState<SessionCard[]>([]);
   const [currentCardId, setCurrentCardId] = useState<string | null>(null);
   const [isFlipped, setIsFlipped] = useState(false);
   const [loading, setLoading] = useState(true);
   const [sessionStats, setSessionStats] = useState({ active: 0, confident: 0, unseen: 0 });
   const [feedback, setFeedback] = useState<{ text: string; color: string } | null>(null);
+  const [isEditing, setIsEditing] = useState(false);
+  const [typedAnswer, setTypedAnswer] = useState('');
+  const [answerCheck, setAnswerCheck] = useState<AnswerCheck | null>(null);
+  const [direction, setDirection] = useState<Direction>('generic_to_brand');
+  const [choices, setChoices] = useState<string[]>([]);
+  const [selectedChoice, setSelectedChoice] = useState<string | null>(null);
+  const [showHelp, setShowHelp] = useState(false);
+  const [undoCount, setUndoCount] = useState(0);
+  const [grading, setGrading] = useState(false);
 
   const lastShownIdRef = useRef<string | null>(null);
   const cardsSinceReinforcementRef = useRef(0);
   const cardsMapRef = useRef<Map<string, SessionCard>>(new Map());
+  // Whole deck, used as the distractor pool and for class lookups even when the session is a due-only queue
+  const deckCardsRef = useRef<Card[]>([]);
+  const cardRef = useRef<HTMLDivElement>(null);
+  const gradeGroupRef = useRef<HTMLDivElement>(null);
+  const undoStackRef = useRef<UndoEntry[]>([]);
+  const shownAtRef = useRef(0);
+  const revealedAtRef = useRef<number | null>(null);
+  // Set while a grade is being saved or undone; the state twin only drives the disabled buttons
+  const gradingRef = useRef(false);
+
+  const params = settings.session;
+  const intervalMs = (minutes: number) => minutes * MILLISECONDS_IN_MINUTE;
+  const modeDirections = getModeDirections(mode);
+  const isTyped = mode === 'typed';
+  const isMultipleChoice = mode === 'multiple_choice';
 
   useEffect(() => {
-    initializeSession();
+    initializeSession(resume);
   }, [deck.id]);
 
-  const initializeSession = async () => {
+  const initializeSession = async (resumeSaved: boolean = false) => {
     setLoading(true);
-    const dbCards = await dbService.getCardsForDeck(deck.id);
+    undoStackRef.current = [];
+    setUndoCount(0);
+    deckCardsRef.current = await dbService.getCardsForDeck(deck.id);
+
+    const snapshot = resumeSaved ? await dbService.getSession(deck.id, settings.sessionExpiryHours) : null;
+    if (snapshot) {
+        // Card content and SRS state come fresh from the database; only session progress is restored.
+        // Cards suspended or buried since the save are dropped.
+        const byId = new Map(deckCardsRef.current.filter(c => isStudyable(c)).map(c => [c.id, c]));
+        const sessionCards: SessionCard[] = snapshot.cards
+            .filter(saved => byId.has(saved.id))
+            .map(saved => ({ ...byId.get(saved.id)!, ...saved }));
+
+        cardsMapRef.current = new Map(sessionCards.map(c => [c.id, c]));
+        cardsSinceReinforcementRef.current = snapshot.cardsSinceReinforcement;
+        lastShownIdRef.current = snapshot.lastShownId;
+        fillActiveBatch(sessionCards);
+        setCards(sessionCards);
+        const current = snapshot.currentCardId ? cardsMapRef.current.get(snapshot.currentCardId) : undefined;
+        if (current && current.sessionState !== 'done') presentCard(current, snapshot.direction);
+        else pickNextCard(sessionCards);
+        setLoading(false);
+        updateStats(sessionCards);
+        return;
+    }
+
+    let dbCards: Card[];
+    if (scheduleMode === 'long_term') {
+        // Queue order is learning → due reviews → new, so the batch fills in that order
+        const queue = await getDailyQueue(deck.id, settings, modeDirections);
+        dbCards = [...queue.learning, ...queue.review, ...queue.newCards];
+    } else if (scheduleMode === 'exam' && deck.examDate) {
+        dbCards = buildCramQueue(deckCardsRef.current, deck.examDate);
+    } else {
+        dbCards = shuffle(deckCardsRef.current.filter(c => isStudyable(c)));
+    }
     
-    const sessionCards: SessionCard[] = shuffle(dbCards).map(c => ({
+    const sessionCards: SessionCard[] = dbCards.map(c => ({
       ...c,
       sessionState: 'unseen',
       sessionDueTime: 0,
@@ -58,7 +174,7 @@ export const StudySession: React.FC<Props> = ({ deck, mode, onExit }) => {
 
   const fillActiveBatch = (allCards: SessionCard[]) => {
     const currentActiveCount = allCards.filter(c => c.sessionState === 'active').length;
-    const needed = 10 - currentActiveCount;
+    const needed = params.batchSize - currentActiveCount;
     
     if (needed > 0) {
         const unseen = allCards.filter(c => c.sessionState === 'unseen');
@@ -71,17 +187,71 @@ export const StudySession: React.FC<Props> = ({ deck, mode, onExit }) => {
   const updateStats = (allCards: SessionCard[]) => {
     setSessionStats({
         active: allCards.filter(c => c.sessionState === 'active').length,
-        confident: allCards.filter(c => c.sessionState === 'easyPool').length,
+        confident: allCards.filter(c => c.sessionState === 'easyPool' || c.sessionState === 'done').length,
         unseen: allCards.filter(c => c.sessionState === 'unseen').length
     });
   };
 
+  // Long-term sessions ask a direction that is actually due; drill and exam sessions pick any of the mode's directions
+  const chooseDirection = (card: SessionCard): Direction => {
+    let candidates = modeDirections;
+    if (scheduleMode === 'long_term') {
+        const now = Date.now();
+        const states = modeDirections.map(d => ({ d, s: getSchedulingState(card, d, settings) }));
+        const due = states.filter(e => isCardDue(e.s, now));
+        const learning = states.filter(e => e.s.state === 'learning' || e.s.state === 'relearning');
+        if (due.length > 0) candidates = due.map(e => e.d);
+        else if (learning.length > 0) candidates = learning.map(e => e.d);
+    }
+    return candidates[Math.floor(Math.random() * candidates.length)];
+  };
+
+  // Saved every time a card is shown, so leaving or reloading resumes at the same card.
+  // Only long-term sessions are kept: a drill or exam run would otherwise replace the deck's saved session.
+  const persistSession = (currentId: string | null, currentDirection: Direction) => {
+    if (scheduleMode !== 'long_term') return;
+    if (!currentId) {
+        dbService.deleteSession(deck.id).catch(console.error);
+        return;
+    }
+    dbService.saveSession({
+        deckId: deck.id,
+        mode,
+        scheduleMode,
+        savedAt: Date.now(),
+        cards: Array.from(cardsMapRef.current.values()).map(c => ({ id: c.id, ...toSessionFields(c) })),
+        currentCardId: currentId,
+        direction: currentDirection,
+        cardsSinceReinforcement: cardsSinceReinforcementRef.current,
+        lastShownId: lastShownIdRef.current,
+    }).catch(console.error);
+  };
+
+  const presentCard = (card: SessionCard, forcedDirection?: Direction) => {
+    const nextDirection = forcedDirection || chooseDirection(card);
+    persistSession(card.id, nextDirection);
+    setCurrentCardId(card.id);
+    setDirection(nextDirection);
+    setChoices(isMultipleChoice ? buildChoices(card, nextDirection, deckCardsRef.current) : []);
+    setSelectedChoice(null);
+    setTypedAnswer('');
+    setAnswerCheck(null);
+    setIsFlipped(false);
+    shownAtRef.current = Date.now();
+    revealedAtRef.current = null;
+  };
+
+  const revealAnswer = () => {
+    revealedAtRef.current = Date.now();
+    setIsFlipped(true);
+  };
+
   const pickNextCard = (allCards: SessionCard[]) => {
     const now = Date.now();
     const active = allCards.filter(c => c.sessionState === 'active');
     const easyPool = allCards.filter(c => c.sessionState === 'easyPool');
 
-    if (cardsSinceReinforcementRef.current >= 3 && easyPool.length > 0) {
+    if (cardsSinceReinforcementRef.current >= params.reinforceEvery && easyPool.length > 0) {
         const totalWeight = easyPool.reduce((acc, c) => acc + (c.difficultyScore || 0) + 1, 0);
         let random = Math.random() * totalWeight;
         let selected = easyPool[0];
@@ -92,99 +262,172 @@ export const StudySession: React.FC<Props> = ({ deck, mode, onExit }) => {
                 break;
             }
         }
-        setCurrentCardId(selected.id);
+        presentCard(selected);
         cardsSinceReinforcementRef.current = 0;
         lastShownIdRef.current = selected.id;
-        setIsFlipped(false);
         return;
     }
 
     const due = active.filter(c => c.sessionDueTime <= now);
     if (due.length > 0) {
         const candidate = shuffle(due)[0];
-        setCurrentCardId(candidate.id);
+        presentCard(candidate);
         lastShownIdRef.current = candidate.id;
-        setIsFlipped(false);
         return;
     }
 
     const candidates = active.filter(c => c.id !== lastShownIdRef.current);
     if (candidates.length > 0) {
         const candidate = candidates[Math.floor(Math.random() * candidates.length)];
-        setCurrentCardId(candidate.id);
+        presentCard(candidate);
         lastShownIdRef.current = candidate.id;
-        setIsFlipped(false);
         return;
     }
 
     if (active.length > 0) {
-        setCurrentCardId(active[0].id);
-        setIsFlipped(false);
+        presentCard(active[0]);
         return;
     }
 
     if (easyPool.length > 0) {
         const candidate = easyPool[Math.floor(Math.random() * easyPool.length)];
-        setCurrentCardId(candidate.id);
-        setIsFlipped(false);
+        presentCard(candidate);
         return;
     }
 
     setCurrentCardId(null);
+    persistSession(null, direction);
   };
 
+  // One grade at a time: a second key press or click before the first is saved would grade the card twice
   const handleGrade = async (grade: Grade) => {
+    if (gradingRef.current) return;
+    gradingRef.current = true;
+    setGrading(true);
+    try {
+      await gradeCurrentCard(grade);
+    } finally {
+      gradingRef.current = false;
+      setGrading(false);
+    }
+  };
+
+  const gradeCurrentCard = async (grade: Grade) => {
     if (!currentCardId) return;
     const card = cardsMapRef.current.get(currentCardId);
     if (!card) return;
 
     const now = Date.now();
-    let interval = 0;
     let feedbackText = "";
 
-    switch(grade) {
-        case Grade.Again:
-            interval = INTERVALS.AGAIN;
-            card.sessionGoodStreak = 0;
-            card.difficultyScore = (card.difficultyScore || 0) + 1;
-            await dbService.updateCardDifficulty(card.id, 1);
-            feedbackText = "Again • 1m";
-            break;
-        case Grade.Hard:
-            interval = INTERVALS.HARD;
-            card.sessionGoodStreak = 0;
-            card.difficultyScore = (card.difficultyScore || 0) + 1;
-            await dbService.updateCardDifficulty(card.id, 1);
-            feedbackText = "Hard • 3m";
-            break;
-        case Grade.Good:
-            interval = INTERVALS.GOOD;
-            card.sessionGoodStreak += 1;
-            feedbackText = "Good • 15m";
-            break;
-        case Grade.Easy:
-            interval = INTERVALS.EASY;
-            card.sessionConfident = true;
-            feedbackText = "Easy • 1h";
-            break;
+    const undoEntry: UndoEntry = {
+        stored: structuredClone(toStoredCard(card)),
+        session: new Map(cards.map(c => [c.id, toSessionFields(c)])),
+        direction,
+        logKey: 0,
+        cardsSinceReinforcement: cardsSinceReinforcementRef.current,
+        lastShownId: lastShownIdRef.current,
+    };
+    const before = toLogState(getSchedulingState(card, direction, settings));
+    const responseMs = (revealedAtRef.current ?? now) - shownAtRef.current;
+
+    if (grade === Grade.Again || grade === Grade.Hard) {
+        card.sessionGoodStreak = 0;
+        card.difficultyScore = (card.difficultyScore || 0) + 1;
     }
 
-    card.sessionDueTime = now + interval;
-    card.lastShownAt = now;
+    if (scheduleMode === 'long_term') {
+        const current = getSchedulingState(card, direction, settings);
+        feedbackText = `${GRADE_LABELS[grade]} • ${getSchedulingDescription(current, grade, settings)}`;
+        const next = { ...current, ...scheduleReview(current, grade, settings) };
+        Object.assign(card, applySchedulingState(card, direction, next), { updatedAt: now });
+        if (next.lapses > current.lapses && isLeechLapse(totalLapses(card), settings.leechThreshold)) {
+            Object.assign(card, markLeech(card, settings));
+            feedbackText += card.suspended ? ' • Leech, suspended' : ' • Leech';
+        }
+        await dbService.updateCard(toStoredCard(card));
+
+        card.lastShownAt = now;
+        // The card stays in the session while any of the mode's directions is new, learning or due
+        const pending = modeDirections
+            .map(d => getSchedulingState(card, d, settings))
+            .filter(st => st.state !== 'review' || isCardDue(st, now));
+        if (card.suspended || pending.length === 0) {
+            card.sessionState = 'done';
+            fillActiveBatch(cards);
+        } else {
+            // A sibling direction that is still new waits a step, so the answer just shown is not asked straight back
+            card.sessionDueTime = Math.min(...pending.map(st => st.state === 'new' ? now + intervalMs(params.intervals.again) : st.dueDate));
+        }
+    } else if (scheduleMode === 'exam' && deck.examDate) {
+        const current = getCramState(card, deck.examDate);
+        feedbackText = `${GRADE_LABELS[grade]} • ${describeCramInterval(current, grade, deck.examDate, now)}`;
+        Object.assign(card, { cram: cramNextReview(current, grade, deck.examDate, now), updatedAt: now });
+        await dbService.updateCard(toStoredCard(card));
+
+        card.lastShownAt = now;
+        // A miss comes back this session; anything else waits for its next cram day
+        if (grade === Grade.Again) {
+            card.sessionDueTime = now + intervalMs(params.intervals.again);
+        } else {
+            card.sessionState = 'done';
+            fillActiveBatch(cards);
+        }
+    } else {
+        let interval = 0;
+        switch(grade) {
+            case Grade.Again:
+                interval = intervalMs(params.intervals.again);
+                await dbService.updateCardDifficulty(card.id, 1);
+                feedbackText = `Again • ${formatMinutes(params.intervals.again)}`;
+                break;
+            case Grade.Hard:
+                interval = intervalMs(params.intervals.hard);
+                await dbService.updateCardDifficulty(card.id, 1);
+                feedbackText = `Hard • ${formatMinutes(params.intervals.hard)}`;
+                break;
+            case Grade.Good:
+                interval = intervalMs(params.intervals.good);
+                card.sessionGoodStreak += 1;
+                feedbackText = `Good • ${formatMinutes(params.intervals.good)}`;
+                break;
+            case Grade.Easy:
+                interval = intervalMs(params.intervals.easy);
+                card.sessionConfident = true;
+                feedbackText = `Easy • ${formatMinutes(params.intervals.easy)}`;
+                break;
+        }
 
-    if (card.sessionGoodStreak >= 2) card.sessionConfident = true;
+        card.sessionDueTime = now + interval;
+        card.lastShownAt = now;
 
-    await dbService.logReview({ cardId: card.id, grade, studiedAt: now });
+        if (card.sessionGoodStreak >= params.confidentStreak) card.sessionConfident = true;
 
-    if (card.sessionState === 'active' && card.sessionConfident) {
-        const activeCards = cards.filter(c => c.sessionState === 'active');
-        const confidentActive = activeCards.filter(c => c.sessionConfident).length;
-        if (confidentActive > 5) {
-             activeCards.forEach(c => { if (c.sessionConfident) c.sessionState = 'easyPool'; });
-             fillActiveBatch(cards);
+        if (card.sessionState === 'active' && card.sessionConfident) {
+            const activeCards = cards.filter(c => c.sessionState === 'active');
+            const confidentActive = activeCards.filter(c => c.sessionConfident).length;
+            if (confidentActive > params.rotateAfterConfident) {
+                 activeCards.forEach(c => { if (c.sessionConfident) c.sessionState = 'easyPool'; });
+                 fillActiveBatch(cards);
+            }
         }
     }
 
+    undoEntry.logKey = await dbService.logReview({
+        cardId: card.id,
+        grade,
+        studiedAt: now,
+        direction,
+        ...(scheduleMode === 'exam' ? { cram: true } : {}),
+        mode,
+        scheduleMode,
+        responseMs,
+        before,
+        after: toLogState(getSchedulingState(card, direction, settings)),
+    });
+    undoStackRef.current.push(undoEntry);
+    setUndoCount(undoStackRef.current.length);
+
     setCards([...cards]);
     updateStats(cards);
     setFeedback({ text: feedbackText, color: grade === Grade.Again ? 'bg-red-500' : grade === Grade.Hard ? 'bg-orange-500' : grade === Grade.Good ? 'bg-green-500' : 'bg-blue-500' });
@@ -193,28 +436,209 @@ export const StudySession: React.FC<Props> = ({ deck, mode, onExit }) => {
     pickNextCard(cards);
   };
 
+  // Held for the whole undo, so neither a grade nor a second undo runs while the first is being saved
+  const handleUndo = async () => {
+    if (gradingRef.current) return;
+    gradingRef.current = true;
+    setGrading(true);
+    try {
+      await undoLastGrade();
+    } finally {
+      gradingRef.current = false;
+      setGrading(false);
+    }
+  };
+
+  const undoLastGrade = async () => {
+    const entry = undoStackRef.current.pop();
+    setUndoCount(undoStackRef.current.length);
+    if (!entry) return;
+    const card = cardsMapRef.current.get(entry.stored.id);
+    if (!card) return;
+
+    const restored = revertReviewState(toStoredCard(card), entry.stored);
+    await dbService.updateCard(restored);
+    await dbService.deleteLog(entry.logKey);
+
+    // Replace rather than mutate, so fields the grade added (e.g. a first cram state) disappear too
+    const restoredCard: SessionCard = { ...restored, ...entry.session.get(card.id)! };
+    cardsMapRef.current.set(card.id, restoredCard);
+    // Built from the map, which stays current while the saves above are awaited
+    const nextCards = Array.from(cardsMapRef.current.values());
+    nextCards.forEach(c => {
+        const fields = entry.session.get(c.id);
+        if (fields && c !== restoredCard) Object.assign(c, fields);
+    });
+    cardsSinceReinforcementRef.current = entry.cardsSinceReinforcement;
+    lastShownIdRef.current = entry.lastShownId;
+
+    setCards(nextCards);
+    updateStats(nextCards);
+    presentCard(restoredCard, entry.direction);
+    setFeedback({ text: 'Undone', color: 'bg-gray-500' });
+    setTimeout(() => setFeedback(null), 1500);
+  };
+
+  const handleCardSaved = (saved: Card) => {
+    const card = cardsMapRef.current.get(saved.id);
+    if (card) Object.assign(card, saved);
+    setCards([...cards]);
+    setIsEditing(false);
+  };
+
+  // Takes the current card out of the session; buried cards return tomorrow, suspended ones when restored from the list
+  const handleHide = async (action: 'bury' | 'suspend') => {
+    if (!currentCardId || gradingRef.current) return;
+    const card = cardsMapRef.current.get(currentCardId);
+    if (!card) return;
+
+    const now = Date.now();
+    Object.assign(card, action === 'suspend' ? { suspended: true } : { buriedUntil: buryUntil(now) }, { updatedAt: now });
+    await dbService.updateCard(toStoredCard(card));
+
+    // Undoing an earlier grade would restore the card without the flag
+    undoStackRef.current = undoStackRef.current.filter(e => e.stored.id !== card.id);
+    setUndoCount(undoStackRef.current.length);
+    card.sessionState = 'done';
+    fillActiveBatch(cards);
+    setCards([...cards]);
+    updateStats(cards);
+    setFeedback({ text: action === 'suspend' ? 'Suspended' : 'Buried until tomorrow', color: 'bg-gray-500' });
+    setTimeout(() => setFeedback(null), 1500);
+    pickNextCard(cards);
+  };
+
+  const handleCardDeleted = (cardId: string) => {
+    // Its logs are gone with it, so its grades can no longer be undone
+    undoStackRef.current = undoStackRef.current.filter(e => e.stored.id !== cardId);
+    setUndoCount(undoStackRef.current.length);
+    const remaining = cards.filter(c => c.id !== cardId);
+    cardsMapRef.current.delete(cardId);
+    fillActiveBatch(remaining);
+    setCards(remaining);
+    updateStats(remaining);
+    setIsEditing(false);
+    pickNextCard(remaining);
+  };
+
   const currentCard = cardsMapRef.current.get(currentCardId || '');
-  const [mixedReverse, setMixedReverse] = useState(false);
-  useEffect(() => {
-    if (mode === 'mixed' && currentCardId) setMixedReverse(Math.random() > 0.5);
-  }, [currentCardId, mode]);
 
   const getFace = () => {
-    if (!currentCard) return { front: '', back: '', labelFront: '', labelBack: '', classification: '' };
-    let showGenericFront = mode === 'brand_to_generic' ? false : mode === 'mixed' ? !mixedReverse : true;
+    if (!currentCard) return { front: '', back: '', labelFront: '', labelBack: '', question: '', detailLabel: '', detail: '' };
+    const fields = DIRECTION_FIELDS[direction];
+    // Class directions show the brand as the extra detail, name directions show the class
+    const isClassDirection = fields.prompt === 'classification' || fields.answer === 'classification';
     return {
-        front: showGenericFront ? currentCard.generic : currentCard.brand,
-        back: showGenericFront ? currentCard.brand : currentCard.generic,
-        labelFront: showGenericFront ? 'Generic Name' : 'Brand Name',
-        labelBack: showGenericFront ? 'Brand Name' : 'Generic Name',
-        classification: currentCard.classification
+        front: currentCard[fields.prompt],
+        back: currentCard[fields.answer],
+        labelFront: fields.promptLabel,
+        labelBack: fields.answerLabel,
+        question: fields.question,
+        detailLabel: isClassDirection ? 'Brand Name' : 'Classification',
+        detail: isClassDirection ? currentCard.brand : currentCard.classification
     };
   };
 
   const faces = getFace();
 
+  const sameClassGenerics = direction === 'class_to_generic' && currentCard
+    ? deckCardsRef.current
+        .filter(c => c.id !== currentCard.id && c.classification === currentCard.classification)
+        .map(c => c.generic)
+        .slice(0, 5)
+    : [];
+
+  const handleChoice = (choice: string) => {
+    setSelectedChoice(choice);
+    revealAnswer();
+  };
+
+  const choiceCorrect = currentCard && selectedChoice !== null ? isChoiceCorrect(currentCard, direction, selectedChoice) : null;
+  const suggestedGrade = answerCheck?.suggestedGrade ?? (choiceCorrect === null ? null : choiceCorrect ? Grade.Good : Grade.Again);
+
+  const submitTypedAnswer = () => {
+    setAnswerCheck(checkAnswer(typedAnswer, faces.back));
+    revealAnswer();
+  };
+
+  const gradeSub = (grade: Grade, fixed: string) => {
+    if (!currentCard) return fixed;
+    if (scheduleMode === 'long_term') return getSchedulingDescription(getSchedulingState(currentCard, direction, settings), grade, settings);
+    if (scheduleMode === 'exam' && deck.examDate) return describeCramInterval(getCramState(currentCard, deck.examDate), grade, deck.examDate);
+    return fixed;
+  };
+
+  const canFlip = !isFlipped && !isTyped && !isMultipleChoice;
+
+  // Reassigned every render so the window listener always sees the current card and state
+  const keyHandlerRef = useRef<(e: KeyboardEvent) => void>(() => {});
+  keyHandlerRef.current = (e: KeyboardEvent) => {
+    if (e.ctrlKey || e.metaKey || e.altKey || e.repeat) return;
+    if (isEditing) return;
+    if (showHelp) {
+        if (e.key === 'Escape' || e.key === '?') { e.preventDefault(); setShowHelp(false); }
+        return;
+    }
+
+    const target = e.target as HTMLElement;
+    const inField = target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.isContentEditable;
+    if (e.key === 'Escape') {
+        e.preventDefault();
+        if (inField) target.blur();
+        else onExit();
+        return;
+    }
+    if (inField) return;
+    if (e.key === 'u' || e.key === 'U') {
+        e.preventDefault();
+        handleUndo();
+        return;
+    }
+    if (!currentCard) return;
+
+    if (e.key === '?') {
+        setShowHelp(true);
+    } else if (e.key === 'e' || e.key === 'E') {
+        e.preventDefault();
+        setIsEditing(true);
+    } else if (e.key === 'b' || e.key === 'B') {
+        e.preventDefault();
+        handleHide('bury');
+    } else if (e.key === 's' || e.key === 'S') {
+        e.preventDefault();
+        handleHide('suspend');
+    } else if (!isFlipped) {
+        if (isMultipleChoice && /^[1-9]$/.test(e.key) && choices[Number(e.key) - 1]) {
+            e.preventDefault();
+            handleChoice(choices[Number(e.key) - 1]);
+        } else if (canFlip && (e.key === ' ' || e.key === 'Enter')) {
+            e.preventDefault();
+            revealAnswer();
+        }
+    } else if (['1', '2', '3', '4'].includes(e.key)) {
+        e.preventDefault();
+        handleGrade(Number(e.key) as Grade);
+    }
+  };
+
+  useEffect(() => {
+    const listener = (e: KeyboardEvent) => keyHandlerRef.current(e);
+    window.addEventListener('keydown', listener);
+    return () => window.removeEventListener('keydown', listener);
+  }, []);
+
+  // Flipping moves focus to the suggested (or Good) grade; a new card moves it back to the card
+  useEffect(() => {
+    if (isFlipped) {
+        const buttons = gradeGroupRef.current?.querySelectorAll('button');
+        buttons?.[(suggestedGrade ?? Grade.Good) - 1]?.focus();
+    } else if (!isTyped) {
+        cardRef.current?.focus();
+    }
+  }, [isFlipped, currentCardId]);
+
   if (loading) return <div className="flex h-screen items-center justify-center text-gray-500">Preparing Session...</div>;
-  if (!currentCard) return <div className="flex flex-col h-screen items-center justify-center bg-gray-50 dark:bg-gray-900 p-6 text-center"><h2 className="text-3xl font-bold text-gray-800 dark:text-white mb-4">Deck Complete! 🎉</h2><button onClick={onExit} className="px-6 py-3 bg-blue-600 text-white rounded-lg shadow hover:bg-blue-700">Back to Decks</button></div>;
+  if (!currentCard) return <div className="flex flex-col h-screen items-center justify-center bg-gray-50 dark:bg-gray-900 p-6 text-center"><h2 className="text-3xl font-bold text-gray-800 dark:text-white mb-4">{scheduleMode === 'drill' ? 'Deck Complete! 🎉' : 'All caught up! 🎉'}</h2><button onClick={onExit} className="px-6 py-3 bg-blue-600 text-white rounded-lg shadow hover:bg-blue-700">Back to Decks</button></div>;
 
   return (
     <div className="flex flex-col h-[100dvh] bg-gray-100 dark:bg-gray-900 transition-colors duration-300">
@@ -222,18 +646,57 @@ export const StudySession: React.FC<Props> = ({ deck, mode, onExit }) => {
         <div className="flex gap-3 items-center">
             <button onClick={onExit} className="text-gray-500 dark:text-gray-400 hover:text-gray-800 dark:hover:text-white font-medium">←</button>
             <span className="font-bold text-gray-700 dark:text-gray-200 truncate max-w-[150px]">{deck.name}</span>
+            {scheduleMode === 'exam' && deck.examDate && (
+                <span className="text-xs bg-purple-100 text-purple-700 dark:bg-purple-900/40 dark:text-purple-300 px-2 py-0.5 rounded-full font-bold">Exam in {daysUntilExam(deck.examDate)}d</span>
+            )}
+        </div>
+        <div className="flex gap-2 items-center">
+            <button 
+                onClick={() => handleHide('bury')} 
+                disabled={!currentCard} 
+                aria-keyshortcuts="B"
+                title="Hide this card until tomorrow"
+                className="text-xs bg-gray-200 dark:bg-gray-700 text-gray-600 dark:text-gray-300 px-2 py-1 rounded disabled:opacity-40"
+            >
+                Bury
+            </button>
+            <button 
+                onClick={() => handleHide('suspend')} 
+                disabled={!currentCard} 
+                aria-keyshortcuts="S"
+                title="Hide this card until restored from the card list"
+                className="text-xs bg-gray-200 dark:bg-gray-700 text-gray-600 dark:text-gray-300 px-2 py-1 rounded disabled:opacity-40"
+            >
+                Suspend
+            </button>
+            <button 
+                onClick={handleUndo} 
+                disabled={undoCount === 0 || grading} 
+                aria-keyshortcuts="U"
+                className="text-xs bg-gray-200 dark:bg-gray-700 text-gray-600 dark:text-gray-300 px-2 py-1 rounded disabled:opacity-40"
+            >
+                Undo
+            </button>
+            <button onClick={() => setShowHelp(true)} aria-label="Keyboard shortcuts" className="text-xs bg-gray-200 dark:bg-gray-700 text-gray-600 dark:text-gray-300 px-2 py-1 rounded font-mono">?</button>
+            <button onClick={() => initializeSession()} className="text-xs bg-gray-200 dark:bg-gray-700 text-gray-600 dark:text-gray-300 px-2 py-1 rounded">Restart</button>
         </div>
-        <button onClick={initializeSession} className="text-xs bg-gray-200 dark:bg-gray-700 text-gray-600 dark:text-gray-300 px-2 py-1 rounded">Restart</button>
       </div>
 
       <div className="bg-blue-50 dark:bg-gray-800/50 py-2 px-4 flex justify-around text-xs font-mono font-bold text-gray-500 dark:text-gray-400 border-b dark:border-gray-700 shrink-0">
-        <span className="text-blue-600 dark:text-blue-400">BATCH: {sessionStats.active}/10</span>
+        <span className="text-blue-600 dark:text-blue-400">BATCH: {sessionStats.active}/{params.batchSize}</span>
         <span className="text-green-600 dark:text-green-400">DONE: {sessionStats.confident}</span>
         <span>LEFT: {sessionStats.unseen}</span>
       </div>
 
       <div className="flex-1 flex flex-col items-center justify-center p-4 overflow-hidden relative min-h-0">
-        <div className="relative w-full max-w-md h-full max-h-[60vh] md:max-h-[500px] md:h-auto md:aspect-video" onClick={() => !isFlipped && setIsFlipped(true)}>
+        <div 
+            ref={cardRef}
+            tabIndex={0}
+            role={canFlip ? 'button' : 'region'}
+            aria-label={canFlip ? `${faces.labelFront}: ${faces.front}. Press Space to show the answer.` : isFlipped ? `Answer. ${faces.labelBack}: ${faces.back}` : `${faces.labelFront}: ${faces.front}. ${faces.question}`}
+            className="relative w-full max-w-md h-full max-h-[60vh] md:max-h-[500px] md:h-auto md:aspect-video rounded-3xl outline-none focus-visible:ring-4 focus-visible:ring-blue-300" 
+            onClick={() => canFlip && revealAnswer()}
+        >
             <div className={`w-full h-full bg-white dark:bg-gray-800 rounded-3xl shadow-2xl flex flex-col items-center justify-center p-8 text-center border border-gray-100 dark:border-gray-700 transition-all duration-500 transform-gpu ${isFlipped ? 'rotate-y-180' : ''}`}>
                 <div className="text-xs uppercase tracking-widest text-gray-400 dark:text-gray-500 font-bold mb-4">
                     {isFlipped ? faces.labelBack : faces.labelFront}
@@ -243,39 +706,194 @@ export const StudySession: React.FC<Props> = ({ deck, mode, onExit }) => {
                     {isFlipped ? (<span className="border-b-4 border-blue-200 dark:border-blue-800 pb-1">{faces.back}</span>) : faces.front}
                 </div>
 
+                {!isFlipped && direction !== 'generic_to_brand' && direction !== 'brand_to_generic' && (
+                    <div className="mt-3 text-sm text-gray-500 dark:text-gray-400">{faces.question}</div>
+                )}
+
+                {isFlipped && selectedChoice !== null && (
+                    <div className={`mt-4 text-sm font-bold ${choiceCorrect ? 'text-green-500' : 'text-red-500'}`}>
+                        {choiceCorrect ? '✓ Correct' : `✗ You chose: ${selectedChoice}`}
+                    </div>
+                )}
+
+                {isFlipped && answerCheck && (
+                    <div className="mt-4 w-full">
+                        <div className={`text-[10px] uppercase font-bold mb-1 tracking-wider ${answerCheck.correct ? 'text-green-500' : answerCheck.distance <= answerCheck.tolerance ? 'text-orange-500' : 'text-red-500'}`}>
+                            {answerCheck.correct ? 'Correct' : answerCheck.distance <= answerCheck.tolerance ? 'Close — check spelling' : 'Your answer'}
+                        </div>
+                        <AnswerDiff segments={answerCheck.diff} />
+                    </div>
+                )}
+
                 {isFlipped && (
                     <div className="mt-6 pt-6 border-t border-gray-100 dark:border-gray-700 w-full animate-in fade-in slide-in-from-bottom-2">
-                        <div className="text-[10px] uppercase font-bold text-blue-500 dark:text-blue-400 mb-1 tracking-wider">Classification</div>
-                        <div className="text-sm md:text-md text-gray-600 dark:text-gray-300 font-medium italic">{faces.classification}</div>
+                        <div className="text-[10px] uppercase font-bold text-blue-500 dark:text-blue-400 mb-1 tracking-wider">{faces.detailLabel}</div>
+                        <div className="text-sm md:text-md text-gray-600 dark:text-gray-300 font-medium italic">{faces.detail}</div>
+
+                        {currentCard.notes && (
+                            <>
+                                <div className="mt-4 text-[10px] uppercase font-bold text-blue-500 dark:text-blue-400 mb-1 tracking-wider">Notes</div>
+                                <NoteView text={currentCard.notes} className="text-sm text-gray-600 dark:text-gray-300 max-h-32 overflow-y-auto" />
+                            </>
+                        )}
+
+                        {sameClassGenerics.length > 0 && (
+                            <>
+                                <div className="mt-4 text-[10px] uppercase text-gray-400 mb-1">Also in this class</div>
+                                <div className="text-sm text-gray-500 dark:text-gray-400">{sameClassGenerics.join(', ')}</div>
+                            </>
+                        )}
                         
                         <div className="mt-4 text-[10px] uppercase text-gray-400 mb-1">Prompt</div>
                         <div className="text-sm text-gray-500 dark:text-gray-400">{faces.front}</div>
+
+                        <button 
+                            onClick={(e) => { e.stopPropagation(); setIsEditing(true); }} 
+                            className="mt-4 text-xs text-gray-400 hover:text-blue-600 dark:hover:text-blue-400"
+                        >
+                            ✎ Edit card
+                        </button>
                     </div>
                 )}
                 
-                {!isFlipped && (<div className="absolute bottom-8 text-gray-400 text-sm animate-bounce">Tap to flip</div>)}
+                {!isFlipped && isTyped && (
+                    <input 
+                        type="text"
+                        value={typedAnswer}
+                        onChange={(e) => setTypedAnswer(e.target.value)}
+                        onKeyDown={(e) => { if (e.key === 'Enter') submitTypedAnswer(); }}
+                        onClick={(e) => e.stopPropagation()}
+                        placeholder={`Type the ${faces.labelBack.toLowerCase()}...`}
+                        autoFocus
+                        autoComplete="off"
+                        autoCapitalize="off"
+                        spellCheck={false}
+                        className="mt-8 w-full bg-gray-50 dark:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded-xl px-4 py-3 text-lg text-center text-gray-900 dark:text-white outline-none focus:ring-2 focus:ring-blue-500"
+                    />
+                )}
+
+                {!isFlipped && !isTyped && !isMultipleChoice && (<div className="absolute bottom-8 text-gray-400 text-sm animate-bounce">Tap to flip</div>)}
             </div>
         </div>
 
-        {feedback && (<div className={`absolute top-10 px-6 py-2 rounded-full text-white font-bold shadow-lg transform transition-all animate-in slide-in-from-top-4 fade-in ${feedback.color}`}>{feedback.text}</div>)}
+        {/* Focus jumps to the grade buttons on flip, so announce the answer separately */}
+        <div className="sr-only" aria-live="polite">{isFlipped ? `${faces.labelBack}: ${faces.back}` : ''}</div>
+        {feedback && (<div role="status" className={`absolute top-10 px-6 py-2 rounded-full text-white font-bold shadow-lg transform transition-all animate-in slide-in-from-top-4 fade-in ${feedback.color}`}>{feedback.text}</div>)}
       </div>
 
       <div className="p-4 bg-white dark:bg-gray-800 border-t dark:border-gray-700 pb-4 shrink-0">
         {!isFlipped ? (
-             <button onClick={() => { setIsFlipped(true); }} className="w-full py-4 bg-gray-900 dark:bg-blue-600 text-white rounded-2xl text-lg font-bold shadow-lg">Show Answer</button>
+             isTyped ? (
+                 <button onClick={submitTypedAnswer} className="w-full py-4 bg-gray-900 dark:bg-blue-600 text-white rounded-2xl text-lg font-bold shadow-lg">Check Answer</button>
+             ) : isMultipleChoice ? (
+                 <div className="grid grid-cols-2 gap-2">
+                     {choices.map((choice, i) => (
+                         <button 
+                             key={choice} 
+                             onClick={() => handleChoice(choice)} 
+                             aria-keyshortcuts={String(i + 1)}
+                             className="py-3 px-2 bg-gray-100 dark:bg-gray-700 hover:bg-blue-50 dark:hover:bg-gray-600 text-gray-800 dark:text-white rounded-xl font-medium text-sm break-words transition"
+                         >
+                             {choice}
+                         </button>
+                     ))}
+                 </div>
+             ) : (
+                 <button onClick={revealAnswer} className="w-full py-4 bg-gray-900 dark:bg-blue-600 text-white rounded-2xl text-lg font-bold shadow-lg">Show Answer</button>
+             )
         ) : (
-            <div className="grid grid-cols-4 gap-2">
-                <GradeBtn label="Again" sub="1m" color={COLORS.again} onClick={() => handleGrade(Grade.Again)} />
-                <GradeBtn label="Hard" sub="3m" color={COLORS.hard} onClick={() => handleGrade(Grade.Hard)} />
-                <GradeBtn label="Good" sub="15m" color={COLORS.good} onClick={() => handleGrade(Grade.Good)} />
-                <GradeBtn label="Easy" sub="1h" color={COLORS.easy} onClick={() => handleGrade(Grade.Easy)} />
+            <div ref={gradeGroupRef} role="group" aria-label="Grade your answer" className="grid grid-cols-4 gap-2">
+                <GradeBtn label="Again" shortcut="1" sub={gradeSub(Grade.Again, formatMinutes(params.intervals.again))} color={COLORS.again} suggested={suggestedGrade === Grade.Again} disabled={grading} onClick={() => handleGrade(Grade.Again)} />
+                <GradeBtn label="Hard" shortcut="2" sub={gradeSub(Grade.Hard, formatMinutes(params.intervals.hard))} color={COLORS.hard} suggested={suggestedGrade === Grade.Hard} disabled={grading} onClick={() => handleGrade(Grade.Hard)} />
+                <GradeBtn label="Good" shortcut="3" sub={gradeSub(Grade.Good, formatMinutes(params.intervals.good))} color={COLORS.good} suggested={suggestedGrade === Grade.Good} disabled={grading} onClick={() => handleGrade(Grade.Good)} />
+                <GradeBtn label="Easy" shortcut="4" sub={gradeSub(Grade.Easy, formatMinutes(params.intervals.easy))} color={COLORS.easy} suggested={suggestedGrade === Grade.Easy} disabled={grading} onClick={() => handleGrade(Grade.Easy)} />
             </div>
         )}
       </div>
+
+      {showHelp && <ShortcutHelp isMultipleChoice={isMultipleChoice} onClose={() => setShowHelp(false)} />}
+
+      {isEditing && (
+        <CardEditor 
+            deckId={currentCard.deckId} 
+            card={toStoredCard(currentCard)} 
+            onSaved={handleCardSaved} 
+            onDeleted={handleCardDeleted} 
+            onClose={() => setIsEditing(false)} 
+        />
+      )}
     </div>
   );
 };
 
-const GradeBtn = ({ label, sub, color, onClick }: any) => (
-    <button onClick={onClick} className={`flex flex-col items-center justify-center py-3 rounded-xl text-white shadow active:scale-95 transition ${color}`}><span className="font-bold">{label}</span><span className="text-[10px] opacity-80">{sub}</span></button>
+const GradeBtn = ({ label, shortcut, sub, color, suggested, disabled, onClick }: any) => (
+    <button 
+        onClick={onClick} 
+        disabled={disabled}
+        aria-label={`${label}, next review ${sub}${suggested ? ', suggested' : ''}`}
+        aria-keyshortcuts={shortcut}
+        className={`relative flex flex-col items-center justify-center py-3 rounded-xl text-white shadow active:scale-95 disabled:opacity-60 transition outline-none focus-visible:ring-4 focus-visible:ring-blue-300 ${color} ${suggested ? 'ring-4 ring-offset-2 ring-yellow-400 dark:ring-offset-gray-800' : ''}`}
+    >
+        <span className="absolute top-1 left-2 text-[10px] font-mono opacity-60 hidden md:inline" aria-hidden="true">{shortcut}</span>
+        <span className="font-bold">{label}</span>
+        <span className="text-[10px] opacity-80">{suggested ? `${sub} • suggested` : sub}</span>
+    </button>
+);
+
+const SHORTCUTS: { keys: string; action: string }[] = [
+    { keys: 'Space / Enter', action: 'Show answer' },
+    { keys: '1 – 4', action: 'Again / Hard / Good / Easy' },
+    { keys: 'U', action: 'Undo last grade' },
+    { keys: 'E', action: 'Edit card' },
+    { keys: 'B', action: 'Bury card until tomorrow' },
+    { keys: 'S', action: 'Suspend card' },
+    { keys: 'Esc', action: 'Exit session' },
+    { keys: '?', action: 'Show or hide this help' },
+];
+
+const ShortcutHelp = ({ isMultipleChoice, onClose }: { isMultipleChoice: boolean; onClose: () => void }) => (
+    <div className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center z-50 p-4" onClick={onClose}>
+        <div 
+            role="dialog" 
+            aria-modal="true" 
+            aria-labelledby="shortcut-help-title"
+            className="bg-white dark:bg-gray-800 rounded-2xl shadow-2xl w-full max-w-sm p-6"
+            onClick={e => e.stopPropagation()}
+        >
+            <h2 id="shortcut-help-title" className="text-lg font-bold text-gray-900 dark:text-white mb-4">Keyboard Shortcuts</h2>
+            <dl className="space-y-2 text-sm">
+                {SHORTCUTS.map(s => (
+                    <div key={s.keys} className="flex justify-between gap-4">
+                        <dt><kbd className="font-mono text-xs bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-200 px-1.5 py-0.5 rounded border border-gray-300 dark:border-gray-600">{s.keys}</kbd></dt>
+                        <dd className="text-gray-600 dark:text-gray-300 text-right">{s.action}</dd>
+                    </div>
+                ))}
+                {isMultipleChoice && (
+                    <div className="flex justify-between gap-4">
+                        <dt><kbd className="font-mono text-xs bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-200 px-1.5 py-0.5 rounded border border-gray-300 dark:border-gray-600">1 – 4</kbd></dt>
+                        <dd className="text-gray-600 dark:text-gray-300 text-right">Pick an option (before the answer)</dd>
+                    </div>
+                )}
+            </dl>
+            <button autoFocus onClick={onClose} className="mt-6 w-full py-2.5 bg-blue-600 text-white rounded-lg font-medium hover:bg-blue-700 transition">Close</button>
+        </div>
+    </div>
+);
+
+const DIFF_STYLES: Record<DiffSegment['op'], string> = {
+    match: 'text-green-600 dark:text-green-400',
+    wrong: 'text-red-600 dark:text-red-400 bg-red-100 dark:bg-red-900/30',
+    missing: 'text-gray-400 underline decoration-dotted',
+    extra: 'text-red-400 line-through',
+};
+
+// Typed letters in colour; missing letters show the expected character, wrong ones show the typo
+const AnswerDiff = ({ segments }: { segments: DiffSegment[] }) => (
+    <div className="font-mono text-lg tracking-wide break-all">
+        {segments.map((seg, i) => (
+            <span key={i} className={DIFF_STYLES[seg.op]} title={seg.op === 'wrong' ? `expected "${seg.expected}"` : undefined}>
+                {seg.op === 'missing' ? seg.expected : seg.typed === ' ' ? '\u00a0' : seg.typed}
+            </span>
+        ))}
+    </div>
 );
\ No newline at end of file
@@ -1,4 +1,10 @@
-import { AppSettings } from './types';
+import { AppSettings, SessionParams, SessionPreset } from './types';
+
+export const SESSION_PRESETS: Record<SessionPreset, SessionParams> = {
+  gentle: { batchSize: 5, rotateAfterConfident: 2, reinforceEvery: 2, confidentStreak: 3, intervals: { again: 1, hard: 2, good: 10, easy: 30 } },
+  standard: { batchSize: 10, rotateAfterConfident: 5, reinforceEvery: 3, confidentStreak: 2, intervals: { again: 1, hard: 3, good: 15, easy: 60 } },
+  intense: { batchSize: 15, rotateAfterConfident: 8, reinforceEvery: 5, confidentStreak: 2, intervals: { again: 2, hard: 5, good: 30, easy: 120 } },
+};
 
 export const DEFAULT_SETTINGS: AppSettings = {
   darkMode: false,
@@ -7,22 +13,42 @@ export const DEFAULT_SETTINGS: AppSettings = {
   reviewsPerDay: 999,
   initialEaseFactor: 2.5,
   easyBonus: 1.3,
+  algorithm: 'sm2',
+  targetRetention: 0.9,
+  fsrsWeights: [],
+  sessionExpiryHours: 12,
+  sessionPreset: 'standard',
+  session: SESSION_PRESETS.standard,
+  leechThreshold: 8,
+  leechAction: 'suspend',
 };
 
+// PDF rows scored below this (0–1) are highlighted for review before import
+export const DOUBTFUL_ROW_CONFIDENCE = 0.7;
+
+// Name similarity (0–1) from which two cards are suggested as a look-alike/sound-alike pair
+export const LASA_THRESHOLD = 0.6;
+
+// Tag given to cards that crossed the leech threshold
+export const LEECH_TAG = 'leech';
+
+// FSRS-4.5 default parameters, used until the user fits their own
+export const FSRS_DEFAULT_WEIGHTS = [
+  0.4872, 1.4003, 3.7145, 13.8206, 5.1618, 1.2298, 0.8975, 0.031, 1.6474,
+  0.1367, 1.0461, 2.1072, 0.0793, 0.3246, 1.587, 0.2272, 2.8755,
+];
+
 export const DB_NAME = 'AnkiDrugDB';
-export const DB_VERSION = 4; // Bumped for classification field
+export const DB_VERSION = 10; // Bumped for the look-alike/sound-alike pairs store
 
 export const HAMILTON_DECK_ID = 'deck_hamilton_v1';
 export const CARDIO_DECK_ID = 'deck_cardio_v1';
+export const PRELOADED_DECK_IDS = [HAMILTON_DECK_ID, CARDIO_DECK_ID];
 
 export const MIN_EASE_FACTOR = 1.3;
 
-export const INTERVALS = {
-  AGAIN: 1 * 60 * 1000,
-  HARD: 3 * 60 * 1000,
-  GOOD: 15 * 60 * 1000,
-  EASY: 60 * 60 * 1000,
-};
+// Exam prep aims to show every card this many times before the exam
+export const EXAM_TARGET_REVIEWS = 4;
 
 export const COLORS = {
   again: 'bg-red-500 hover:bg-red-600 dark:bg-red-600 dark:hover:bg-red-700',
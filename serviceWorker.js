@@ -0,0 +1,39 @@
+// Offline cache for the built app. vite.config.ts fills in PRECACHE and CACHE_NAME at build time,
+// so every build gets a fresh cache and old ones are dropped on activate.
+const PRECACHE = self.__PRECACHE__;
+const CACHE_NAME = self.__CACHE_NAME__;
+
+const scoped = (path) => new URL(path, self.registration.scope).href;
+
+self.addEventListener('install', (event) => {
+  event.waitUntil(
+    caches.open(CACHE_NAME)
+      .then((cache) => cache.addAll(['./', ...PRECACHE].map(scoped)))
+      .then(() => self.skipWaiting())
+  );
+});
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil(
+    caches.keys()
+      .then((keys) => Promise.all(keys.filter((key) => key !== CACHE_NAME).map((key) => caches.delete(key))))
+      .then(() => self.clients.claim())
+  );
+});
+
+// Cache first: all data lives in IndexedDB, so the network is never needed once the app is cached
+self.addEventListener('fetch', (event) => {
+  const { request } = event;
+  if (request.method !== 'GET' || new URL(request.url).origin !== self.location.origin) return;
+
+  const key = request.mode === 'navigate' ? scoped('./') : request;
+  event.respondWith(
+    caches.match(key).then((cached) => cached || fetch(request).then((response) => {
+      if (response.ok && request.mode !== 'navigate') {
+        const copy = response.clone();
+        caches.open(CACHE_NAME).then((cache) => cache.put(request, copy));
+      }
+      return response;
+    }))
+  );
+});
@@ -0,0 +1,37 @@
+import { describe, it, expect } from 'vitest';
+import { Grade } from '../types';
+import { checkAnswer, diffAnswer, normalizeAnswer } from './answerCheck';
+
+describe('normalizeAnswer', () => {
+  it('ignores case, repeated spaces and spacing around slashes and hyphens', () => {
+    expect(normalizeAnswer('  Piperacillin /  Tazobactam ')).toBe('piperacillin/tazobactam');
+    expect(normalizeAnswer('Co - Trimoxazole')).toBe('co-trimoxazole');
+  });
+});
+
+describe('diffAnswer', () => {
+  it('marks wrong, missing and extra characters', () => {
+    expect(diffAnswer('cat', 'cut').map(s => s.op)).toEqual(['match', 'wrong', 'match']);
+    expect(diffAnswer('ct', 'cat').map(s => s.op)).toEqual(['match', 'missing', 'match']);
+    expect(diffAnswer('caat', 'cat').filter(s => s.op === 'extra')).toHaveLength(1);
+  });
+});
+
+describe('checkAnswer', () => {
+  it('grades an exact answer Good', () => {
+    const result = checkAnswer('Zestril', 'zestril');
+    expect(result).toMatchObject({ correct: true, distance: 0, suggestedGrade: Grade.Good });
+  });
+
+  it('grades a small slip Hard and a wrong answer Again', () => {
+    expect(checkAnswer('lisinoprl', 'lisinopril').suggestedGrade).toBe(Grade.Hard);
+    expect(checkAnswer('metoprolol', 'lisinopril').suggestedGrade).toBe(Grade.Again);
+    expect(checkAnswer('', 'a').suggestedGrade).toBe(Grade.Again);
+  });
+
+  it('accepts combination parts in either order', () => {
+    const result = checkAnswer('tazobactam + piperacillin', 'Piperacillin/Tazobactam');
+    expect(result.correct).toBe(true);
+    expect(result.expected).toBe('tazobactam/piperacillin');
+  });
+});
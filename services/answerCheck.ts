@@ -0,0 +1,114 @@
+import { Grade } from '../types';
+
+export type DiffOp = 'match' | 'wrong' | 'missing' | 'extra';
+
+export interface DiffSegment {
+  op: DiffOp;
+  typed: string;    // what the user typed ('' for missing)
+  expected: string; // what was expected ('' for extra)
+}
+
+export interface AnswerCheck {
+  correct: boolean; // exact after normalization
+  distance: number;
+  tolerance: number;
+  expected: string; // expected answer, combination parts reordered to match the typed order
+  diff: DiffSegment[];
+  suggestedGrade: Grade;
+}
+
+// Combination products are written "a/b"; some lists use "a + b"
+const COMBINATION_SPLIT = /\s*(?:\/|\s\+\s)\s*/;
+
+export const normalizeAnswer = (value: string): string =>
+  value
+    .toLowerCase()
+    .replace(/\s+/g, ' ')
+    .replace(/\s*([\/\-])\s*/g, '$1')
+    .trim();
+
+const levenshtein = (a: string, b: string): number[][] => {
+  const d: number[][] = Array.from({ length: a.length + 1 }, (_, i) => [i, ...Array(b.length).fill(0)]);
+  for (let j = 1; j <= b.length; j++) d[0][j] = j;
+
+  for (let i = 1; i <= a.length; i++) {
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      d[i][j] = Math.min(d[i - 1][j] + 1, d[i][j - 1] + 1, d[i - 1][j - 1] + cost);
+    }
+  }
+  return d;
+};
+
+export const editDistance = (a: string, b: string): number => levenshtein(a, b)[a.length][b.length];
+
+// Walks the edit-distance matrix back from the end to build a per-character diff
+export const diffAnswer = (typed: string, expected: string): DiffSegment[] => {
+  const d = levenshtein(typed, expected);
+  const segments: DiffSegment[] = [];
+  let i = typed.length;
+  let j = expected.length;
+
+  while (i > 0 || j > 0) {
+    if (i > 0 && j > 0 && d[i][j] === d[i - 1][j - 1] + (typed[i - 1] === expected[j - 1] ? 0 : 1)) {
+      const same = typed[i - 1] === expected[j - 1];
+      segments.push({ op: same ? 'match' : 'wrong', typed: typed[i - 1], expected: expected[j - 1] });
+      i--;
+      j--;
+    } else if (j > 0 && d[i][j] === d[i][j - 1] + 1) {
+      segments.push({ op: 'missing', typed: '', expected: expected[j - 1] });
+      j--;
+    } else {
+      segments.push({ op: 'extra', typed: typed[i - 1], expected: '' });
+      i--;
+    }
+  }
+
+  return segments.reverse();
+};
+
+// Pairs each typed part with the closest unused expected part so "b/a" is compared against "b/a", not "a/b"
+const alignCombination = (typedParts: string[], expectedParts: string[]): string[] => {
+  const remaining = [...expectedParts];
+  const ordered: string[] = [];
+
+  for (const part of typedParts) {
+    if (remaining.length === 0) break;
+    let best = 0;
+    for (let k = 1; k < remaining.length; k++) {
+      if (editDistance(part, remaining[k]) < editDistance(part, remaining[best])) best = k;
+    }
+    ordered.push(remaining.splice(best, 1)[0]);
+  }
+
+  return [...ordered, ...remaining];
+};
+
+export const checkAnswer = (typedRaw: string, expectedRaw: string): AnswerCheck => {
+  const typed = normalizeAnswer(typedRaw);
+  let expected = normalizeAnswer(expectedRaw);
+
+  const typedParts = typed.split(COMBINATION_SPLIT).filter(p => p);
+  const expectedParts = expected.split(COMBINATION_SPLIT).filter(p => p);
+  if (expectedParts.length > 1 && typedParts.length > 1) {
+    expected = alignCombination(typedParts, expectedParts).join('/');
+  }
+  const comparable = typedParts.length > 1 ? typedParts.join('/') : typed;
+
+  const distance = editDistance(comparable, expected);
+  // Roughly one slip per 6 characters, at least one
+  const tolerance = Math.max(1, Math.floor(expected.length / 6));
+
+  let suggestedGrade = Grade.Again;
+  if (distance === 0) suggestedGrade = Grade.Good;
+  else if (comparable && distance <= tolerance) suggestedGrade = Grade.Hard;
+
+  return {
+    correct: distance === 0,
+    distance,
+    tolerance,
+    expected,
+    diff: diffAnswer(comparable, expected),
+    suggestedGrade,
+  };
+};
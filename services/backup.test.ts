@@ -0,0 +1,53 @@
+import { describe, it, expect } from 'vitest';
+import { DB_VERSION, DEFAULT_SETTINGS } from '../constants';
+import { parseBackup } from './backup';
+import { makeCard } from './testUtils';
+
+const backup = (overrides: Record<string, unknown> = {}) => JSON.stringify({
+  app: 'ankidrug',
+  version: DB_VERSION,
+  exportedAt: 1,
+  decks: [{ id: 'd1', name: 'Deck', createdAt: 1 }],
+  cards: [{ id: 'c1', deckId: 'd1', generic: 'lisinopril', brand: 'Zestril', tags: ['Cardio', 7] }],
+  logs: [],
+  ...overrides,
+});
+
+describe('parseBackup', () => {
+  it('fills in fields that older backups lack', () => {
+    const parsed = parseBackup(backup());
+    expect(parsed.cards[0]).toMatchObject({ classification: 'N/A', notes: '', difficultyScore: 0, tags: ['cardio'] });
+    expect(parsed.settings).toBeNull();
+    expect(parsed.tombstones).toEqual([]);
+    expect(parsed.lasaPairs).toEqual([]);
+  });
+
+  it('keeps a current card as it is', () => {
+    const card = makeCard({ notes: 'ACE: "-pril"', tags: ['cardio'], state: 'review', intervalDays: 4 });
+    expect(parseBackup(backup({ cards: [card] })).cards).toEqual([card]);
+  });
+
+  it('rejects files that are not backups', () => {
+    expect(() => parseBackup('not json')).toThrow('not valid JSON');
+    expect(() => parseBackup('[]')).toThrow('not an AnkiDrug backup');
+    expect(() => parseBackup(backup({ version: DB_VERSION + 1 }))).toThrow('Update the app first');
+    expect(() => parseBackup(backup({ logs: undefined }))).toThrow('missing decks, cards or logs');
+  });
+
+  it('rejects cards without an id or deck', () => {
+    expect(() => parseBackup(backup({ cards: [{ generic: 'x' }] }))).toThrow('without an id or deck');
+  });
+
+  it('rejects records missing the fields they are stored by', () => {
+    expect(() => parseBackup(backup({ decks: [{ name: 'Deck' }] }))).toThrow('deck without an id');
+    expect(() => parseBackup(backup({ logs: [{ cardId: 'c1', studiedAt: '2026-01-01' }] }))).toThrow('review log');
+    expect(() => parseBackup(backup({ logs: [null] }))).toThrow('review log');
+    expect(() => parseBackup(backup({ tombstones: [{ id: 'c1', type: 'note', deletedAt: 1 }] }))).toThrow('deletion record');
+    expect(() => parseBackup(backup({ lasaPairs: [{ id: 'c1|c2', cardIds: ['c1'] }] }))).toThrow('look-alike pair');
+  });
+
+  it('fills in settings added since the backup was written', () => {
+    const parsed = parseBackup(backup({ settings: { darkMode: true, newCardsPerDay: 5 } }));
+    expect(parsed.settings).toEqual({ ...DEFAULT_SETTINGS, darkMode: true, newCardsPerDay: 5 });
+  });
+});
@@ -0,0 +1,88 @@
+import { BackupFile, Card, Deck, ReviewLog, AppSettings, Tombstone, LasaPair } from '../types';
+import { DB_VERSION, DEFAULT_SETTINGS } from '../constants';
+import { splitLegacyScheduling } from './srs';
+import { normalizeTags } from './tags';
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Older backups may predate fields added in later schema versions
+const normalizeCard = (value: unknown): Card => {
+  if (!isRecord(value) || typeof value.id !== 'string' || typeof value.deckId !== 'string') {
+    throw new Error('Backup contains a card without an id or deck.');
+  }
+  const card = value as Partial<Card> & Pick<Card, 'id' | 'deckId'>;
+  return {
+    ...(card as Card),
+    classification: card.classification || 'N/A',
+    notes: card.notes || '',
+    tags: Array.isArray(card.tags) ? normalizeTags(card.tags.filter((t): t is string => typeof t === 'string')) : [],
+    difficultyScore: card.difficultyScore || 0,
+  };
+};
+
+// Every record needs the fields the stores are keyed and indexed on
+const checkRecords = <T>(values: unknown[], isValid: (record: Record<string, unknown>) => boolean, problem: string): T[] => {
+  if (!values.every(value => isRecord(value) && isValid(value))) throw new Error(`Backup contains ${problem}.`);
+  return values as T[];
+};
+
+const isDeck = (r: Record<string, unknown>) => typeof r.id === 'string';
+const isLog = (r: Record<string, unknown>) => typeof r.cardId === 'string' && typeof r.studiedAt === 'number';
+const isTombstone = (r: Record<string, unknown>) =>
+  typeof r.id === 'string' && (r.type === 'deck' || r.type === 'card') && typeof r.deletedAt === 'number';
+const isLasaPair = (r: Record<string, unknown>) =>
+  typeof r.id === 'string' && Array.isArray(r.cardIds) && r.cardIds.length === 2 && r.cardIds.every(id => typeof id === 'string');
+
+export const parseBackup = (text: string): BackupFile => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error('Backup file is not valid JSON.');
+  }
+
+  if (!isRecord(data) || data.app !== 'ankidrug') {
+    throw new Error('This file is not an AnkiDrug backup.');
+  }
+  if (typeof data.version !== 'number') {
+    throw new Error('Backup is missing its schema version.');
+  }
+  if (data.version > DB_VERSION) {
+    throw new Error(`Backup uses schema v${data.version}, but this app only supports up to v${DB_VERSION}. Update the app first.`);
+  }
+  if (!Array.isArray(data.decks) || !Array.isArray(data.cards) || !Array.isArray(data.logs)) {
+    throw new Error('Backup is missing decks, cards or logs.');
+  }
+
+  const version = data.version;
+  return {
+    app: 'ankidrug',
+    version,
+    exportedAt: typeof data.exportedAt === 'number' ? data.exportedAt : 0,
+    decks: checkRecords<Deck>(data.decks, isDeck, 'a deck without an id'),
+    cards: data.cards.map(normalizeCard).map(c => version < 6 ? splitLegacyScheduling(c) : c),
+    logs: checkRecords<ReviewLog>(data.logs, isLog, 'a review log without a card or date'),
+    // Settings added since the backup was written take their defaults
+    settings: isRecord(data.settings) ? { ...DEFAULT_SETTINGS, ...(data.settings as Partial<AppSettings>) } : null,
+    tombstones: Array.isArray(data.tombstones)
+      ? checkRecords<Tombstone>(data.tombstones, isTombstone, 'a deletion record without an id, type or date')
+      : [],
+    lasaPairs: Array.isArray(data.lasaPairs)
+      ? checkRecords<LasaPair>(data.lasaPairs, isLasaPair, 'a look-alike pair without its two cards')
+      : [],
+  };
+};
+
+export const downloadBackup = (backup: BackupFile) => {
+  const blob = new Blob([JSON.stringify(backup)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const date = new Date(backup.exportedAt).toISOString().slice(0, 10);
+
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `ankidrug-backup-${date}.json`;
+  link.click();
+  // Revoking straight after click() can cancel the download in some browsers
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
@@ -0,0 +1,129 @@
+import { Card, CramState, Grade } from '../types';
+import { EXAM_TARGET_REVIEWS } from '../constants';
+import { totalLapses } from './srs';
+import { isStudyable, startOfToday } from './queue';
+
+const MILLISECONDS_IN_DAY = 24 * 60 * 60 * 1000;
+
+export interface ExamPlanDay {
+  dayStart: number;
+  newCount: number;
+  reviewCount: number;
+}
+
+// Calendar arithmetic so DST changes do not shift a day boundary
+const addDays = (dayStart: number, days: number): number => {
+  const d = new Date(dayStart);
+  d.setDate(d.getDate() + days);
+  return d.getTime();
+};
+
+const dayIndex = (time: number, today: number): number =>
+  Math.round((startOfToday(time) - today) / MILLISECONDS_IN_DAY);
+
+export const daysUntilExam = (examDate: number, now: number = Date.now()): number =>
+  Math.max(0, dayIndex(examDate, startOfToday(now)));
+
+// New cards are introduced over the first half of the remaining days so each has room for its reviews
+const introductionDays = (daysLeft: number) => Math.max(1, Math.ceil(daysLeft / 2));
+
+// Spreads the reviews still owed evenly over the days left; once the target is met the card is done until the exam
+export const cramIntervalDays = (reviews: number, daysLeft: number): number => {
+  const remaining = EXAM_TARGET_REVIEWS - reviews;
+  if (remaining <= 0) return daysLeft;
+  return Math.max(1, Math.floor(daysLeft / (remaining + 1)));
+};
+
+// Cards the user struggles with come first
+export const cramPriority = (card: Card): number => (card.difficultyScore || 0) + 2 * totalLapses(card);
+
+// State left over from an earlier exam date does not count
+export const getCramState = (card: Card, examDate: number): CramState | null =>
+  card.cram && card.cram.examDate === examDate ? card.cram : null;
+
+export const isCramFinished = (state: CramState): boolean => state.dueDate >= state.examDate;
+
+export const cramNextReview = (current: CramState | null, grade: Grade, examDate: number, now: number = Date.now()): CramState => {
+  const today = startOfToday(now);
+  const daysLeft = daysUntilExam(examDate, now);
+  const state = current || { examDate, dueDate: now, reviews: 0, introducedAt: now };
+
+  let reviews = state.reviews;
+  let interval = 1;
+  if (grade !== Grade.Again) {
+    reviews += 1;
+    interval = cramIntervalDays(reviews, daysLeft);
+    if (grade === Grade.Hard) interval = Math.max(1, Math.floor(interval / 2));
+    if (grade === Grade.Easy) interval = Math.ceil(interval * 1.5);
+  }
+
+  return { ...state, reviews, dueDate: Math.min(addDays(today, interval), examDate) };
+};
+
+export const describeCramInterval = (current: CramState | null, grade: Grade, examDate: number, now: number = Date.now()): string => {
+  const next = cramNextReview(current, grade, examDate, now);
+  if (isCramFinished(next)) return 'done';
+  return `${dayIndex(next.dueDate, startOfToday(now))}d`;
+};
+
+const byPriority = (a: Card, b: Card) => cramPriority(b) - cramPriority(a);
+
+// Today's cram cards: everything due before the exam, then today's share of unseen cards
+export const buildCramQueue = (cards: Card[], examDate: number, now: number = Date.now()): Card[] => {
+  const today = startOfToday(now);
+  const due: Card[] = [];
+  const unseen: Card[] = [];
+  let introducedToday = 0;
+
+  for (const card of cards) {
+    if (!isStudyable(card, now)) continue;
+    const state = getCramState(card, examDate);
+    if (!state) unseen.push(card);
+    else {
+      if (state.introducedAt >= today) introducedToday++;
+      if (!isCramFinished(state) && state.dueDate <= now) due.push(card);
+    }
+  }
+
+  const perDay = Math.ceil((unseen.length + introducedToday) / introductionDays(daysUntilExam(examDate, now)));
+  const newLimit = Math.max(0, perDay - introducedToday);
+
+  return [...due.sort(byPriority), ...unseen.sort(byPriority).slice(0, newLimit)];
+};
+
+// Projects the remaining cram workload per day until the exam, assuming every answer is Good
+export const buildExamPlan = (cards: Card[], examDate: number, now: number = Date.now()): ExamPlanDay[] => {
+  const today = startOfToday(now);
+  const studyDays = Math.max(1, daysUntilExam(examDate, now));
+  const plan: ExamPlanDay[] = Array.from({ length: studyDays }, (_, i) => ({ dayStart: addDays(today, i), newCount: 0, reviewCount: 0 }));
+
+  const project = (day: number, reviews: number) => {
+    while (day < studyDays && reviews < EXAM_TARGET_REVIEWS) {
+      plan[day].reviewCount++;
+      reviews++;
+      day += cramIntervalDays(reviews, studyDays - day);
+    }
+  };
+
+  const unseen: Card[] = [];
+  let introducedToday = 0;
+  for (const card of cards) {
+    if (card.suspended) continue; // buried cards are only out for today, so the plan keeps them
+    const state = getCramState(card, examDate);
+    if (!state) unseen.push(card);
+    else {
+      if (state.introducedAt >= today) introducedToday++;
+      if (!isCramFinished(state)) project(Math.max(0, dayIndex(state.dueDate, today)), state.reviews);
+    }
+  }
+
+  // Same pacing as buildCramQueue: today's share already includes cards introduced earlier today
+  const perDay = Math.max(1, Math.ceil((unseen.length + introducedToday) / introductionDays(studyDays)));
+  unseen.sort(byPriority).forEach((card, i) => {
+    const day = Math.floor((i + introducedToday) / perDay);
+    plan[day].newCount++;
+    project(day + cramIntervalDays(1, studyDays - day), 1);
+  });
+
+  return plan;
+};
@@ -1,5 +1,5 @@
-import { openDB, IDBPDatabase } from 'idb';
-import { Card, Deck, ReviewLog, AppSettings } from '../types';
+import { openDB, IDBPDatabase, IDBPTransaction, StoreNames } from 'idb';
+import { Card, Deck, ReviewLog, AppSettings, BackupFile, RestoreMode, Tombstone, SessionSnapshot, LasaPair } from '../types';
 import { 
   DB_NAME, 
   DB_VERSION, 
@@ -7,8 +7,12 @@ import {
   HAMILTON_DATA, 
   CARDIO_DATA,
   HAMILTON_DECK_ID,
-  CARDIO_DECK_ID
+  CARDIO_DECK_ID,
+  PRELOADED_DECK_IDS
 } from '../constants';
+import { splitLegacyScheduling } from './srs';
+import { applyDeckFilter } from './filteredDecks';
+import { normalizeTags } from './tags';
 
 interface AppDB {
   decks: {
@@ -18,7 +22,7 @@ interface AppDB {
   cards: {
     key: string;
     value: Card;
-    indexes: { 'by-deck': string };
+    indexes: { 'by-deck': string; 'by-tag': string };
   };
   logs: {
     key: number;
@@ -29,14 +33,57 @@ interface AppDB {
     key: string;
     value: AppSettings;
   };
+  tombstones: {
+    key: string;
+    value: Tombstone;
+  };
+  sessions: {
+    key: string;
+    value: SessionSnapshot;
+  };
+  lasaPairs: {
+    key: string;
+    value: LasaPair;
+    indexes: { 'by-card': string };
+  };
 }
 
 let dbPromise: Promise<IDBPDatabase<AppDB>>;
 
+// Runs inside the versionchange transaction, so it must only await IndexedDB requests.
+// One cursor applies every step so two passes cannot overwrite each other's updates.
+const migrateCards = async (transaction: IDBPTransaction<AppDB, StoreNames<AppDB>[], 'versionchange'>, oldVersion: number) => {
+  let cursor = await transaction.objectStore('cards').openCursor();
+  while (cursor) {
+    let card = cursor.value;
+    if (oldVersion < 6) card = splitLegacyScheduling(card);
+    if (oldVersion < 7) card = { ...card, tags: normalizeTags(card.tags || []) };
+    await cursor.update(card);
+    cursor = await cursor.continue();
+  }
+};
+
+const createLogStore = (db: IDBPDatabase<AppDB>) => {
+  const logStore = db.createObjectStore('logs', { keyPath: 'id', autoIncrement: true });
+  logStore.createIndex('by-card', 'cardId');
+  logStore.createIndex('by-date', 'studiedAt');
+};
+
+// Logs used to be keyed by studiedAt, so two reviews in the same millisecond overwrote each other.
+// The store is rebuilt with auto-increment ids, added in the old (chronological) key order.
+const migrateLogs = async (db: IDBPDatabase<AppDB>, transaction: IDBPTransaction<AppDB, StoreNames<AppDB>[], 'versionchange'>) => {
+  const logs = await transaction.objectStore('logs').getAll();
+  db.deleteObjectStore('logs');
+  createLogStore(db);
+  const logStore = transaction.objectStore('logs');
+  for (const log of logs) await logStore.add(log);
+};
+
 export const initDB = () => {
   if (!dbPromise) {
     dbPromise = openDB<AppDB>(DB_NAME, DB_VERSION, {
       upgrade(db, oldVersion, newVersion, transaction) {
+        const migrateLogStore = db.objectStoreNames.contains('logs') && oldVersion < 9;
         if (!db.objectStoreNames.contains('decks')) {
           db.createObjectStore('decks', { keyPath: 'id' });
         }
@@ -45,13 +92,30 @@ export const initDB = () => {
           cardStore.createIndex('by-deck', 'deckId');
         }
         if (!db.objectStoreNames.contains('logs')) {
-          const logStore = db.createObjectStore('logs', { keyPath: 'studiedAt', autoIncrement: true });
-          logStore.createIndex('by-card', 'cardId');
-          logStore.createIndex('by-date', 'studiedAt');
+          createLogStore(db);
         }
         if (!db.objectStoreNames.contains('settings')) {
           db.createObjectStore('settings');
         }
+        if (!db.objectStoreNames.contains('tombstones')) {
+          db.createObjectStore('tombstones', { keyPath: 'id' });
+        }
+        if (!db.objectStoreNames.contains('sessions')) {
+          db.createObjectStore('sessions', { keyPath: 'deckId' });
+        }
+        if (!db.objectStoreNames.contains('lasaPairs')) {
+          const pairStore = db.createObjectStore('lasaPairs', { keyPath: 'id' });
+          pairStore.createIndex('by-card', 'cardIds', { multiEntry: true });
+        }
+        const cardStore = transaction.objectStore('cards');
+        if (!cardStore.indexNames.contains('by-tag')) {
+          cardStore.createIndex('by-tag', 'tags', { multiEntry: true });
+        }
+        // The migrations run one after the other inside the upgrade transaction
+        (async () => {
+          if (oldVersion > 0 && oldVersion < 7) await migrateCards(transaction, oldVersion);
+          if (migrateLogStore) await migrateLogs(db, transaction);
+        })().catch(err => console.error('Database migration failed', err));
       },
     });
   }
@@ -62,7 +126,8 @@ export const dbService = {
   async getSettings(): Promise<AppSettings> {
     const db = await initDB();
     const settings = await db.get('settings', 'appSettings');
-    return settings || DEFAULT_SETTINGS;
+    // Settings saved by older versions lack fields added since
+    return { ...DEFAULT_SETTINGS, ...settings };
   },
 
   async saveSettings(settings: AppSettings): Promise<void> {
@@ -81,17 +146,50 @@ export const dbService = {
     await db.put('decks', deck);
   },
 
+  async updateDeck(deck: Deck): Promise<void> {
+    const db = await initDB();
+    await db.put('decks', deck);
+  },
+
+  // Cascades to the deck's cards and their review logs
+  async deleteDeck(deckId: string): Promise<void> {
+    const db = await initDB();
+    const tx = db.transaction(['decks', 'cards', 'logs', 'tombstones', 'sessions', 'lasaPairs'], 'readwrite');
+    const cardStore = tx.objectStore('cards');
+    const logIndex = tx.objectStore('logs').index('by-card');
+    const pairIndex = tx.objectStore('lasaPairs').index('by-card');
+
+    const cardIds = await cardStore.index('by-deck').getAllKeys(deckId);
+    for (const cardId of cardIds) {
+      const logKeys = await logIndex.getAllKeys(cardId);
+      await Promise.all(logKeys.map(key => tx.objectStore('logs').delete(key)));
+      const pairKeys = await pairIndex.getAllKeys(cardId);
+      await Promise.all(pairKeys.map(key => tx.objectStore('lasaPairs').delete(key)));
+      await cardStore.delete(cardId);
+    }
+    await tx.objectStore('decks').delete(deckId);
+    await tx.objectStore('sessions').delete(deckId);
+
+    if (PRELOADED_DECK_IDS.includes(deckId)) {
+      await tx.objectStore('tombstones').put({ id: deckId, type: 'deck', deletedAt: Date.now() });
+    }
+    await tx.done;
+  },
+
   async syncPreloadedDecks(db: IDBPDatabase<AppDB>) {
      const preloaded = [
        { id: HAMILTON_DECK_ID, name: "Hamilton Health Sciences", data: HAMILTON_DATA },
        { id: CARDIO_DECK_ID, name: "Cardiovascular Drugs (Canada)", data: CARDIO_DATA }
      ];
 
-     const tx = db.transaction(['decks', 'cards'], 'readwrite');
+     const tx = db.transaction(['decks', 'cards', 'tombstones'], 'readwrite');
      const deckStore = tx.objectStore('decks');
      const cardStore = tx.objectStore('cards');
+     const deletedIds = new Set(await tx.objectStore('tombstones').getAllKeys());
 
      for (const p of preloaded) {
+        if (deletedIds.has(p.id)) continue;
+
         const existingDeck = await deckStore.get(p.id);
         if (!existingDeck) {
             await deckStore.put({ id: p.id, name: p.name, createdAt: Date.now() });
@@ -100,11 +198,14 @@ export const dbService = {
         for (let i = 0; i < p.data.length; i++) {
            const pair = p.data[i];
            const stableId = `card_${p.id}_${i}`;
+           if (deletedIds.has(stableId)) continue;
            
            const existingCard = await cardStore.get(stableId);
            
            if (existingCard) {
+             if (existingCard.userEdited) continue;
              if (existingCard.generic !== pair.generic || existingCard.brand !== pair.brand || existingCard.classification !== (pair as any).classification) {
+                 // Only the content is refreshed; scheduling, tags and the suspended/buried flags carry over
                  await cardStore.put({
                    ...existingCard,
                    generic: pair.generic,
@@ -138,11 +239,34 @@ export const dbService = {
      await tx.done;
   },
 
+  async getAllCards(): Promise<Card[]> {
+    const db = await initDB();
+    return db.getAll('cards');
+  },
+
   async getCardsForDeck(deckId: string): Promise<Card[]> {
     const db = await initDB();
+    const deck = await db.get('decks', deckId);
+    // Filtered decks own no cards; they gather them from the real decks by query
+    if (deck?.filter) {
+      const { tags } = deck.filter;
+      const candidates = tags.length > 0 ? await this.getCardsByTags(tags) : await db.getAll('cards');
+      return applyDeckFilter(candidates, deck.filter);
+    }
     return db.getAllFromIndex('cards', 'by-deck', deckId);
   },
 
+  // Cards carrying any of the tags, through the multiEntry tag index
+  async getCardsByTags(tags: string[]): Promise<Card[]> {
+    const db = await initDB();
+    const found = new Map<string, Card>();
+    for (const tag of normalizeTags(tags)) {
+      const cards = await db.getAllFromIndex('cards', 'by-tag', tag);
+      cards.forEach(c => found.set(c.id, c));
+    }
+    return Array.from(found.values());
+  },
+
   async addCards(cards: Card[]): Promise<void> {
     const db = await initDB();
     const tx = db.transaction('cards', 'readwrite');
@@ -150,6 +274,35 @@ export const dbService = {
     await tx.done;
   },
 
+  async updateCard(card: Card): Promise<void> {
+    const db = await initDB();
+    await db.put('cards', card);
+  },
+
+  async updateCards(cards: Card[]): Promise<void> {
+    const db = await initDB();
+    const tx = db.transaction('cards', 'readwrite');
+    await Promise.all(cards.map(card => tx.store.put(card)));
+    await tx.done;
+  },
+
+  async deleteCard(cardId: string): Promise<void> {
+    const db = await initDB();
+    const tx = db.transaction(['cards', 'logs', 'tombstones', 'lasaPairs'], 'readwrite');
+    const card = await tx.objectStore('cards').get(cardId);
+
+    const logKeys = await tx.objectStore('logs').index('by-card').getAllKeys(cardId);
+    await Promise.all(logKeys.map(key => tx.objectStore('logs').delete(key)));
+    const pairKeys = await tx.objectStore('lasaPairs').index('by-card').getAllKeys(cardId);
+    await Promise.all(pairKeys.map(key => tx.objectStore('lasaPairs').delete(key)));
+    await tx.objectStore('cards').delete(cardId);
+
+    if (card && PRELOADED_DECK_IDS.includes(card.deckId)) {
+      await tx.objectStore('tombstones').put({ id: cardId, type: 'card', deletedAt: Date.now() });
+    }
+    await tx.done;
+  },
+
   async updateCardDifficulty(cardId: string, increment: number): Promise<void> {
     const db = await initDB();
     const card = await db.get('cards', cardId);
@@ -159,8 +312,139 @@ export const dbService = {
     }
   },
   
-  async logReview(log: ReviewLog): Promise<void> {
+  // Resolves to the log's id so the review can be undone
+  async logReview(log: ReviewLog): Promise<number> {
+    const db = await initDB();
+    const key = await db.add('logs', log);
+    return key as number;
+  },
+
+  async deleteLog(key: number): Promise<void> {
+    const db = await initDB();
+    await db.delete('logs', key);
+  },
+
+  async getAllLogs(): Promise<ReviewLog[]> {
+    const db = await initDB();
+    return db.getAll('logs');
+  },
+
+  async getLogsSince(since: number): Promise<ReviewLog[]> {
+    const db = await initDB();
+    return db.getAllFromIndex('logs', 'by-date', IDBKeyRange.lowerBound(since));
+  },
+
+  async getLogsForCard(cardId: string): Promise<ReviewLog[]> {
+    const db = await initDB();
+    return db.getAllFromIndex('logs', 'by-card', cardId);
+  },
+
+  // Reads the logs of many cards in one transaction
+  async getLogsForCards(cardIds: string[]): Promise<ReviewLog[]> {
+    const db = await initDB();
+    const index = db.transaction('logs').store.index('by-card');
+    const logs = await Promise.all(cardIds.map(cardId => index.getAll(cardId)));
+    return logs.flat();
+  },
+
+  async saveSession(snapshot: SessionSnapshot): Promise<void> {
+    const db = await initDB();
+    await db.put('sessions', snapshot);
+  },
+
+  async deleteSession(deckId: string): Promise<void> {
     const db = await initDB();
-    await db.add('logs', log);
+    await db.delete('sessions', deckId);
+  },
+
+  // Snapshots older than maxAgeHours are dropped instead of returned
+  async getSessions(maxAgeHours: number): Promise<SessionSnapshot[]> {
+    const db = await initDB();
+    // A 0 saved by an older settings form would otherwise throw every session away
+    const hours = maxAgeHours > 0 ? maxAgeHours : DEFAULT_SETTINGS.sessionExpiryHours;
+    const cutoff = Date.now() - hours * 60 * 60 * 1000;
+    const sessions = await db.getAll('sessions');
+    const stale = sessions.filter(s => s.savedAt < cutoff);
+    await Promise.all(stale.map(s => db.delete('sessions', s.deckId)));
+    return sessions.filter(s => s.savedAt >= cutoff);
+  },
+
+  async getSession(deckId: string, maxAgeHours: number): Promise<SessionSnapshot | null> {
+    const sessions = await this.getSessions(maxAgeHours);
+    return sessions.find(s => s.deckId === deckId) || null;
+  },
+
+  async getLasaPairs(): Promise<LasaPair[]> {
+    const db = await initDB();
+    return db.getAll('lasaPairs');
+  },
+
+  async saveLasaPair(pair: LasaPair): Promise<void> {
+    const db = await initDB();
+    await db.put('lasaPairs', pair);
+  },
+
+  async deleteLasaPair(id: string): Promise<void> {
+    const db = await initDB();
+    await db.delete('lasaPairs', id);
+  },
+
+  async exportBackup(): Promise<BackupFile> {
+    const db = await initDB();
+    const [decks, cards, logs, settings, tombstones, lasaPairs] = await Promise.all([
+      db.getAll('decks'),
+      db.getAll('cards'),
+      db.getAll('logs'),
+      db.get('settings', 'appSettings'),
+      db.getAll('tombstones'),
+      db.getAll('lasaPairs'),
+    ]);
+    return {
+      app: 'ankidrug',
+      version: DB_VERSION,
+      exportedAt: Date.now(),
+      decks,
+      cards,
+      logs,
+      settings: settings || null,
+      tombstones,
+      lasaPairs,
+    };
+  },
+
+  // 'replace' wipes every store first, including unfinished sessions whose cards may be gone;
+  // 'merge' upserts by id and keeps the local settings. Merged logs get fresh ids, and a log already present (same card and time) is skipped.
+  async restoreBackup(backup: BackupFile, mode: RestoreMode): Promise<void> {
+    const db = await initDB();
+    const tx = db.transaction(['decks', 'cards', 'logs', 'settings', 'tombstones', 'lasaPairs', 'sessions'], 'readwrite');
+
+    if (mode === 'replace') {
+      await Promise.all([
+        tx.objectStore('decks').clear(),
+        tx.objectStore('cards').clear(),
+        tx.objectStore('logs').clear(),
+        tx.objectStore('tombstones').clear(),
+        tx.objectStore('lasaPairs').clear(),
+        tx.objectStore('sessions').clear(),
+      ]);
+      if (backup.settings) {
+        await tx.objectStore('settings').put({ ...DEFAULT_SETTINGS, ...backup.settings }, 'appSettings');
+      }
+    }
+
+    const logKey = (l: ReviewLog) => `${l.cardId}|${l.studiedAt}`;
+    const localLogs = mode === 'merge' ? new Set((await tx.objectStore('logs').getAll()).map(logKey)) : new Set<string>();
+    const logs = mode === 'merge'
+      ? backup.logs.filter(l => !localLogs.has(logKey(l))).map(({ id, ...l }) => l)
+      : backup.logs;
+
+    await Promise.all([
+      ...backup.decks.map(d => tx.objectStore('decks').put(d)),
+      ...backup.cards.map(c => tx.objectStore('cards').put(c)),
+      ...logs.map(l => tx.objectStore('logs').put(l)),
+      ...backup.tombstones.map(t => tx.objectStore('tombstones').put(t)),
+      ...backup.lasaPairs.map(p => tx.objectStore('lasaPairs').put(p)),
+    ]);
+    await tx.done;
   }
 };
\ No newline at end of file
@@ -0,0 +1,42 @@
+import { Card, DeckFilter } from '../types';
+import { totalLapses } from './srs';
+import { hasTag } from './tags';
+
+export const EMPTY_FILTER: DeckFilter = {
+  deckIds: [],
+  classifications: [],
+  tags: [],
+  minDifficulty: 0,
+  minLapses: 0,
+};
+
+// "Beta-Blocker, ARB" → ['Beta-Blocker', 'ARB']
+export const parseFilterList = (value: string): string[] =>
+  value.split(',').map(v => v.trim()).filter(v => v);
+
+export const matchesFilter = (card: Card, filter: DeckFilter): boolean => {
+  if (filter.deckIds.length > 0 && !filter.deckIds.includes(card.deckId)) return false;
+
+  if (filter.classifications.length > 0) {
+    const cls = card.classification.toLowerCase();
+    if (!filter.classifications.some(c => cls.includes(c.toLowerCase()))) return false;
+  }
+
+  if (filter.tags.length > 0 && !filter.tags.some(t => hasTag(card, t))) return false;
+
+  if ((card.difficultyScore || 0) < filter.minDifficulty) return false;
+  if (totalLapses(card) < filter.minLapses) return false;
+  return true;
+};
+
+export const applyDeckFilter = (cards: Card[], filter: DeckFilter): Card[] =>
+  cards.filter(card => matchesFilter(card, filter));
+
+export const describeFilter = (filter: DeckFilter): string => {
+  const parts: string[] = [];
+  if (filter.classifications.length > 0) parts.push(filter.classifications.join(' / '));
+  if (filter.tags.length > 0) parts.push(filter.tags.map(t => `#${t}`).join(' '));
+  if (filter.minDifficulty > 0) parts.push(`difficulty ≥ ${filter.minDifficulty}`);
+  if (filter.minLapses > 0) parts.push(`lapses ≥ ${filter.minLapses}`);
+  return parts.join(' · ') || 'All cards';
+};
@@ -0,0 +1,86 @@
+import { describe, it, expect } from 'vitest';
+import { Grade, ReviewLog, SchedulingState } from '../types';
+import { DEFAULT_SETTINGS } from '../constants';
+import { fitFsrsWeights, fsrsNextReview, intervalForRetention, retrievability } from './fsrs';
+
+const DAY = 24 * 60 * 60 * 1000;
+const NOW = Date.UTC(2026, 0, 15);
+const settings = { ...DEFAULT_SETTINGS, algorithm: 'fsrs' as const, targetRetention: 0.9 };
+
+const reviewState = (overrides: Partial<SchedulingState> = {}): SchedulingState => ({
+  dueDate: NOW,
+  intervalDays: 10,
+  easeFactor: 2.5,
+  repetitions: 3,
+  lapses: 0,
+  state: 'review',
+  stability: 10,
+  difficulty: 5,
+  ...overrides,
+});
+
+describe('retrievability', () => {
+  it('is 90% once the stability has elapsed', () => {
+    expect(retrievability(0, 10)).toBe(1);
+    expect(retrievability(10, 10)).toBeCloseTo(0.9, 5);
+  });
+
+  it('schedules at the stability for a 90% target', () => {
+    expect(intervalForRetention(10, 0.9)).toBe(10);
+    expect(intervalForRetention(10, 0.8)).toBeGreaterThan(10);
+  });
+});
+
+describe('fsrsNextReview', () => {
+  const newState: SchedulingState = { dueDate: NOW, intervalDays: 0, easeFactor: 2.5, repetitions: 0, lapses: 0, state: 'new' };
+
+  it('graduates a new item rated Good and keeps one rated Again in learning', () => {
+    expect(fsrsNextReview(newState, Grade.Good, settings, NOW)).toMatchObject({ state: 'review', repetitions: 1 });
+    const again = fsrsNextReview(newState, Grade.Again, settings, NOW);
+    expect(again).toMatchObject({ state: 'learning', intervalDays: 0 });
+    expect(again.dueDate).toBe(NOW + settings.learningSteps[0] * 60 * 1000);
+  });
+
+  it('grows stability on recall and shrinks it on a lapse', () => {
+    const good = fsrsNextReview(reviewState(), Grade.Good, settings, NOW);
+    expect(good.stability).toBeGreaterThan(10);
+    expect(good.intervalDays).toBeGreaterThan(10);
+
+    const again = fsrsNextReview(reviewState(), Grade.Again, settings, NOW);
+    expect(again).toMatchObject({ state: 'relearning', lapses: 1, repetitions: 0 });
+    expect(again.stability).toBeLessThan(10);
+  });
+
+  it('derives a memory state for items last scheduled by SM-2', () => {
+    const sm2 = reviewState({ stability: undefined, difficulty: undefined });
+    const next = fsrsNextReview(sm2, Grade.Good, settings, NOW);
+    expect(next.stability).toBeGreaterThan(10);
+    expect(next.difficulty).toBeGreaterThanOrEqual(1);
+  });
+});
+
+describe('fitFsrsWeights', () => {
+  it('needs enough spaced reviews', () => {
+    const logs = [
+      { cardId: 'a', grade: Grade.Good, studiedAt: NOW },
+      { cardId: 'a', grade: Grade.Good, studiedAt: NOW + 2 * DAY },
+    ];
+    expect(() => fitFsrsWeights(logs)).toThrow('found 1');
+  });
+
+  it('leaves drill and exam-prep reviews out of the fit', () => {
+    // 20 cards reviewed on days 0, 3, 10 and 25, with an occasional lapse
+    const longTerm: ReviewLog[] = Array.from({ length: 20 }, (_, i) => [0, 3, 10, 25].map((day, j) => ({
+      cardId: `c${i}`,
+      grade: (i + j) % 5 === 0 ? Grade.Again : Grade.Good,
+      studiedAt: NOW + day * DAY,
+      scheduleMode: 'long_term' as const,
+    }))).flat();
+    const extra: ReviewLog[] = longTerm.flatMap(log => [
+      { ...log, grade: Grade.Again, studiedAt: log.studiedAt + 2 * DAY, scheduleMode: 'drill' as const },
+      { cardId: log.cardId, grade: Grade.Easy, studiedAt: log.studiedAt + 5 * DAY, cram: true },
+    ]);
+
+    expect(fitFsrsWeights([...longTerm, ...extra])).toEqual(fitFsrsWeights(longTerm));
+  });
+});
@@ -0,0 +1,211 @@
+import { AppSettings, Grade, ReviewLog, SchedulingState } from '../types';
+import { FSRS_DEFAULT_WEIGHTS, MIN_EASE_FACTOR } from '../constants';
+import { isLongTermLog } from './queue';
+
+// FSRS-4.5: memory is modelled by stability (days until recall drops to 90%),
+// difficulty (1-10) and retrievability (probability of recall right now).
+
+const MILLISECONDS_IN_DAY = 24 * 60 * 60 * 1000;
+const MILLISECONDS_IN_MINUTE = 60 * 1000;
+
+const DECAY = -0.5;
+const FACTOR = 19 / 81;
+const MAX_INTERVAL_DAYS = 36500;
+const MIN_FIT_REVIEWS = 50;
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+export const getWeights = (settings: AppSettings): number[] =>
+  settings.fsrsWeights.length === FSRS_DEFAULT_WEIGHTS.length ? settings.fsrsWeights : FSRS_DEFAULT_WEIGHTS;
+
+export const retrievability = (elapsedDays: number, stability: number): number =>
+  Math.pow(1 + FACTOR * elapsedDays / stability, DECAY);
+
+export const intervalForRetention = (stability: number, retention: number): number =>
+  clamp(Math.round(stability / FACTOR * (Math.pow(retention, 1 / DECAY) - 1)), 1, MAX_INTERVAL_DAYS);
+
+const initialStability = (w: number[], grade: Grade) => Math.max(0.1, w[grade - 1]);
+
+const initialDifficulty = (w: number[], grade: Grade) => clamp(w[4] - (grade - 3) * w[5], 1, 10);
+
+// Moves difficulty by the grade, then reverts it slightly towards the default
+const nextDifficulty = (w: number[], d: number, grade: Grade) =>
+  clamp(w[7] * initialDifficulty(w, Grade.Good) + (1 - w[7]) * (d - w[6] * (grade - 3)), 1, 10);
+
+const recallStability = (w: number[], d: number, s: number, r: number, grade: Grade) => {
+  const hardPenalty = grade === Grade.Hard ? w[15] : 1;
+  const easyBonus = grade === Grade.Easy ? w[16] : 1;
+  return s * (1 + Math.exp(w[8]) * (11 - d) * Math.pow(s, -w[9]) * (Math.exp(w[10] * (1 - r)) - 1) * hardPenalty * easyBonus);
+};
+
+const forgetStability = (w: number[], d: number, s: number, r: number) =>
+  Math.min(s, w[11] * Math.pow(d, -w[12]) * (Math.pow(s + 1, w[13]) - 1) * Math.exp(w[14] * (1 - r)));
+
+// SM-2 ease and FSRS difficulty are mapped onto each other so cards survive switching algorithms
+export const difficultyFromEase = (ease: number) => clamp(11 - 4 * (ease - MIN_EASE_FACTOR), 1, 10);
+export const easeFromDifficulty = (d: number) => MIN_EASE_FACTOR + (11 - d) / 4;
+
+// Items last scheduled by SM-2 have no memory state yet: derive it from their interval and ease
+const memoryState = (state: SchedulingState, w: number[]): { stability: number; difficulty: number } | null => {
+  if (state.stability !== undefined && state.difficulty !== undefined) {
+    return { stability: state.stability, difficulty: state.difficulty };
+  }
+  if (state.state === 'new') return null;
+  return {
+    stability: state.state === 'review' ? Math.max(0.1, state.intervalDays) : initialStability(w, Grade.Good),
+    difficulty: difficultyFromEase(state.easeFactor),
+  };
+};
+
+export const fsrsNextReview = (state: SchedulingState, grade: Grade, settings: AppSettings, now: number = Date.now()): Partial<SchedulingState> => {
+  const w = getWeights(settings);
+  const firstStep = (settings.learningSteps[0] || 1) * MILLISECONDS_IN_MINUTE;
+  const memory = memoryState(state, w);
+
+  const stepOut = (stability: number, difficulty: number, nextState: SchedulingState['state'], step: number, extra: Partial<SchedulingState> = {}) => ({
+    state: nextState,
+    stability,
+    difficulty,
+    easeFactor: easeFromDifficulty(difficulty),
+    intervalDays: 0,
+    dueDate: now + step,
+    ...extra,
+  });
+
+  const graduate = (stability: number, difficulty: number, repetitions: number) => {
+    const interval = intervalForRetention(stability, settings.targetRetention);
+    return {
+      state: 'review' as const,
+      stability,
+      difficulty,
+      easeFactor: easeFromDifficulty(difficulty),
+      repetitions,
+      intervalDays: interval,
+      dueDate: now + interval * MILLISECONDS_IN_DAY,
+    };
+  };
+
+  // First rating ever
+  if (!memory) {
+    const s = initialStability(w, grade);
+    const d = initialDifficulty(w, grade);
+    if (grade === Grade.Again) return stepOut(s, d, 'learning', firstStep, { repetitions: 0 });
+    if (grade === Grade.Hard) return stepOut(s, d, 'learning', firstStep * 1.5, { repetitions: 0 });
+    return graduate(s, d, 1);
+  }
+
+  const d = nextDifficulty(w, memory.difficulty, grade);
+
+  // Same-day learning steps do not change stability
+  if (state.state !== 'review') {
+    if (grade === Grade.Again) return stepOut(memory.stability, d, state.state === 'new' ? 'learning' : state.state, firstStep);
+    if (grade === Grade.Hard) return stepOut(memory.stability, d, state.state === 'new' ? 'learning' : state.state, firstStep * 1.5);
+    return graduate(memory.stability, d, state.repetitions + 1);
+  }
+
+  const lastReview = state.dueDate - state.intervalDays * MILLISECONDS_IN_DAY;
+  const elapsedDays = Math.max(0, (now - lastReview) / MILLISECONDS_IN_DAY);
+  const r = retrievability(elapsedDays, memory.stability);
+
+  if (grade === Grade.Again) {
+    const s = forgetStability(w, memory.difficulty, memory.stability, r);
+    return stepOut(s, d, 'relearning', firstStep, { repetitions: 0, lapses: state.lapses + 1 });
+  }
+
+  const s = recallStability(w, memory.difficulty, memory.stability, r, grade);
+  return graduate(s, d, state.repetitions + 1);
+};
+
+export interface FsrsFitResult {
+  weights: number[];
+  reviews: number;
+  lossBefore: number;
+  lossAfter: number;
+}
+
+// Lower/upper bound per parameter while fitting
+const WEIGHT_BOUNDS: [number, number][] = [
+  [0.1, 100], [0.1, 100], [0.1, 100], [0.1, 100],
+  [1, 10], [0.1, 5], [0.1, 5], [0, 0.5],
+  [0, 3], [0.1, 0.8], [0.01, 2.5],
+  [0.5, 5], [0.01, 0.2], [0.01, 0.9], [0.01, 2],
+  [0, 1], [1, 4],
+];
+
+// Replays every review history with the given weights and returns the mean log loss of the predicted recall
+const replayLoss = (w: number[], histories: ReviewLog[][]): { loss: number; count: number } => {
+  let loss = 0;
+  let count = 0;
+
+  for (const history of histories) {
+    let s = initialStability(w, history[0].grade);
+    let d = initialDifficulty(w, history[0].grade);
+    let lastReview = history[0].studiedAt;
+
+    for (let i = 1; i < history.length; i++) {
+      const log = history[i];
+      const elapsedDays = (log.studiedAt - lastReview) / MILLISECONDS_IN_DAY;
+
+      // Same-day repeats are short-term learning, which this model does not predict
+      if (elapsedDays < 1) {
+        d = nextDifficulty(w, d, log.grade);
+        continue;
+      }
+
+      const r = retrievability(elapsedDays, s);
+      const recalled = log.grade !== Grade.Again;
+      loss -= Math.log(clamp(recalled ? r : 1 - r, 1e-6, 1));
+      count++;
+
+      s = recalled ? recallStability(w, d, s, r, log.grade) : forgetStability(w, d, s, r);
+      d = nextDifficulty(w, d, log.grade);
+      lastReview = log.studiedAt;
+    }
+  }
+
+  return { loss: count ? loss / count : 0, count };
+};
+
+// Coordinate descent on the log loss, starting from the current weights
+export const fitFsrsWeights = (logs: ReviewLog[], start: number[] = FSRS_DEFAULT_WEIGHTS): FsrsFitResult => {
+  const byItem = new Map<string, ReviewLog[]>();
+  for (const log of logs) {
+    // Drills and exam cramming deliberately over-review, which would skew the memory model
+    if (!isLongTermLog(log)) continue;
+    // Logs from before directions were recorded belong to the primary direction
+    const key = `${log.cardId}|${log.direction || 'generic_to_brand'}`;
+    if (!byItem.has(key)) byItem.set(key, []);
+    byItem.get(key)!.push(log);
+  }
+  const histories = Array.from(byItem.values())
+    .map(h => h.sort((a, b) => a.studiedAt - b.studiedAt))
+    .filter(h => h.length >= 2);
+
+  const before = replayLoss(start, histories);
+  if (before.count < MIN_FIT_REVIEWS) {
+    throw new Error(`Need at least ${MIN_FIT_REVIEWS} reviews spaced a day or more apart to fit FSRS; found ${before.count}.`);
+  }
+
+  let best = [...start];
+  let bestLoss = before.loss;
+  for (let pass = 0; pass < 3; pass++) {
+    for (let i = 0; i < best.length; i++) {
+      for (const factor of [0.5, 0.8, 1.25, 2]) {
+        const candidate = [...best];
+        candidate[i] = clamp(best[i] * factor, WEIGHT_BOUNDS[i][0], WEIGHT_BOUNDS[i][1]);
+        const { loss } = replayLoss(candidate, histories);
+        if (loss < bestLoss - 1e-6) {
+          best = candidate;
+          bestLoss = loss;
+        }
+      }
+    }
+  }
+
+  return {
+    weights: best.map(v => Math.round(v * 10000) / 10000),
+    reviews: before.count,
+    lossBefore: before.loss,
+    lossAfter: bestLoss,
+  };
+};
@@ -0,0 +1,173 @@
+import { ImportFormat, ImportTable, ImportField, ColumnMapping, ParseResult } from '../types';
+import { extractPdfItems, buildPdfTable } from './pdfParser';
+import { parseDelimited, parseAnkiText } from './textParser';
+import { parseTags } from './tags';
+
+export interface ImportParser {
+  format: ImportFormat;
+  label: string;
+  extensions: string[];
+  parse: (file: File) => Promise<ImportTable>;
+}
+
+export const IMPORT_FIELDS: { field: ImportField; label: string; required: boolean }[] = [
+  { field: 'generic', label: 'Generic Name', required: true },
+  { field: 'brand', label: 'Brand Name', required: true },
+  { field: 'classification', label: 'Classification', required: false },
+  { field: 'notes', label: 'Notes', required: false },
+  { field: 'tags', label: 'Tags', required: false },
+];
+
+const HEADER_PATTERNS: Record<ImportField, RegExp> = {
+  generic: /generic|drug name|^front$/i,
+  brand: /brand|trade|^back$/i,
+  classification: /class/i,
+  notes: /note|mnemonic|comment/i,
+  tags: /tag/i,
+};
+
+export const guessColumnMapping = (headers: string[], columnCount: number): ColumnMapping => {
+  const mapping: ColumnMapping = {};
+  const used = new Set<number>();
+
+  for (const { field } of IMPORT_FIELDS) {
+    const index = headers.findIndex((h, i) => !used.has(i) && HEADER_PATTERNS[field].test(h));
+    if (index !== -1) {
+      mapping[field] = index;
+      used.add(index);
+    }
+  }
+
+  // Without recognisable headers fall back to the PDF layout: Generic, Brand, Class
+  const positional: ImportField[] = ['generic', 'brand', 'classification'];
+  let next = 0;
+  for (const field of positional) {
+    if (mapping[field] !== undefined) continue;
+    while (used.has(next)) next++;
+    if (next >= columnCount) break;
+    mapping[field] = next;
+    used.add(next);
+  }
+
+  return mapping;
+};
+
+const isHeaderRow = (row: string[]): boolean => {
+  const matched = row.filter(cell => Object.values(HEADER_PATTERNS).some(p => p.test(cell)));
+  return matched.length >= 2;
+};
+
+const tableFromRows = (rows: string[][]): ImportTable => {
+  const columnCount = Math.max(0, ...rows.map(r => r.length));
+  const hasHeader = rows.length > 0 && isHeaderRow(rows[0]);
+  const headers = hasHeader
+    ? rows[0]
+    : Array.from({ length: columnCount }, (_, i) => `Column ${i + 1}`);
+  const dataRows = hasHeader ? rows.slice(1) : rows;
+
+  return {
+    headers,
+    rows: dataRows,
+    mapping: guessColumnMapping(hasHeader ? headers : [], columnCount),
+    requiresMapping: true,
+  };
+};
+
+const pdfParser: ImportParser = {
+  format: 'pdf',
+  label: 'PDF',
+  extensions: ['.pdf'],
+  async parse(file) {
+    const { headers, rows, confidence } = buildPdfTable(await extractPdfItems(file));
+    const columnCount = Math.max(0, ...rows.map(r => r.length));
+    const named = headers?.some(Boolean) ? headers : null;
+
+    // Generic, Brand, Class tables go straight to review; wider ones need their columns picked
+    return {
+      headers: Array.from({ length: columnCount }, (_, i) => named?.[i] || ['Generic', 'Brand', 'Classification'][i] || `Column ${i + 1}`),
+      rows,
+      mapping: guessColumnMapping(named || [], columnCount),
+      requiresMapping: columnCount > 3,
+      confidence,
+    };
+  },
+};
+
+const csvParser: ImportParser = {
+  format: 'csv',
+  label: 'CSV',
+  extensions: ['.csv'],
+  async parse(file) {
+    return tableFromRows(parseDelimited(await file.text(), ','));
+  },
+};
+
+const tsvParser: ImportParser = {
+  format: 'tsv',
+  label: 'TSV',
+  extensions: ['.tsv', '.tab'],
+  async parse(file) {
+    return tableFromRows(parseDelimited(await file.text(), '\t'));
+  },
+};
+
+const ankiTextParser: ImportParser = {
+  format: 'anki_text',
+  label: 'Anki Notes in Plain Text',
+  extensions: ['.txt'],
+  async parse(file) {
+    const { rows, columnNames, tagsColumn } = parseAnkiText(await file.text());
+    const columnCount = Math.max(0, ...rows.map(r => r.length));
+    const headers = Array.from({ length: columnCount }, (_, i) => columnNames[i] || `Field ${i + 1}`);
+
+    // guid/notetype/deck columns are metadata, never card content
+    const metaColumns = new Set(
+      Object.entries(columnNames)
+        .filter(([, name]) => ['guid', 'notetype', 'deck'].includes(name.toLowerCase()))
+        .map(([i]) => Number(i))
+    );
+    const contentColumns = headers.map((_, i) => i).filter(i => !metaColumns.has(i) && i !== tagsColumn);
+
+    const mapping: ColumnMapping = {};
+    if (contentColumns[0] !== undefined) mapping.generic = contentColumns[0];
+    if (contentColumns[1] !== undefined) mapping.brand = contentColumns[1];
+    if (contentColumns[2] !== undefined) mapping.classification = contentColumns[2];
+    if (tagsColumn !== null) mapping.tags = tagsColumn;
+
+    return { headers, rows, mapping, requiresMapping: true };
+  },
+};
+
+export const IMPORT_PARSERS: ImportParser[] = [pdfParser, csvParser, tsvParser, ankiTextParser];
+
+export const ACCEPTED_EXTENSIONS = IMPORT_PARSERS.flatMap(p => p.extensions).join(',');
+
+export const findParser = (file: File): ImportParser | undefined => {
+  const name = file.name.toLowerCase();
+  return IMPORT_PARSERS.find(p => p.extensions.some(ext => name.endsWith(ext)));
+};
+
+export const applyColumnMapping = (table: ImportTable, mapping: ColumnMapping): ParseResult[] => {
+  const cell = (row: string[], field: ImportField) => {
+    const index = mapping[field];
+    return index === undefined ? '' : (row[index] || '').trim();
+  };
+
+  const results: ParseResult[] = [];
+  for (const [i, row] of table.rows.entries()) {
+    const generic = cell(row, 'generic');
+    const brand = cell(row, 'brand');
+    if (!generic || !brand) continue;
+
+    const tags = cell(row, 'tags');
+    results.push({
+      generic,
+      brand,
+      classification: cell(row, 'classification') || 'Unclassified',
+      notes: cell(row, 'notes'),
+      tags: parseTags(tags),
+      confidence: table.confidence?.[i],
+    });
+  }
+  return results;
+};
@@ -0,0 +1,48 @@
+import { describe, it, expect } from 'vitest';
+import { Card, LasaPair } from '../types';
+import { findLasaSuggestions, pairId, tallMan } from './lasa';
+import { makeCard } from './testUtils';
+
+const card = (id: string, generic: string, brand: string, deckId = 'd1'): Card => makeCard({ id, generic, brand, deckId });
+
+const celecoxib = card('a', 'celecoxib', 'Celebrex');
+const citalopram = card('b', 'citalopram', 'Celexa');
+const acetaminophen = card('c', 'acetaminophen', 'Tylenol');
+const atorvastatin = card('d', 'atorvastatin', 'Lipitor');
+
+describe('findLasaSuggestions', () => {
+  it('suggests confusable names and skips unrelated ones', () => {
+    const suggestions = findLasaSuggestions([celecoxib, citalopram, acetaminophen, atorvastatin]);
+    expect(suggestions.map(s => [s.id, s.field])).toEqual([[pairId('a', 'b'), 'brand']]);
+    expect(suggestions[0].score).toBeGreaterThanOrEqual(0.6);
+  });
+
+  it('scores names regardless of case and punctuation', () => {
+    const upper = findLasaSuggestions([card('a', 'x', 'CELEBREX'), card('b', 'y', 'celexa.')]);
+    const lower = findLasaSuggestions([card('a', 'x', 'celebrex'), card('b', 'y', 'celexa')]);
+    expect(upper[0].score).toBeCloseTo(lower[0].score);
+  });
+
+  it('suggests a name pair once across decks and not at all once decided', () => {
+    const inOtherDeck = [card('e', 'celecoxib', 'Celebrex', 'd2'), card('f', 'citalopram', 'Celexa', 'd2')];
+    expect(findLasaSuggestions([celecoxib, citalopram, ...inOtherDeck])).toHaveLength(1);
+
+    const dismissed: LasaPair = {
+      id: pairId('a', 'b'), cardIds: ['a', 'b'], field: 'brand', status: 'dismissed', decidedAt: 0, drills: 0, mixUps: 0,
+    };
+    expect(findLasaSuggestions([celecoxib, citalopram, ...inOtherDeck], [dismissed])).toEqual([]);
+  });
+
+  it('keeps digits, so different vitamins are not taken for one drug', () => {
+    const suggestions = findLasaSuggestions([card('a', 'Vitamin B1', 'Thiamine'), card('b', 'Vitamin B-12', 'Cyanocobalamin')]);
+    expect(suggestions.map(s => s.field)).toEqual(['generic']);
+  });
+});
+
+describe('tallMan', () => {
+  it('capitalises the part that differs', () => {
+    expect(tallMan('hydroxyzine', 'hydralazine')).toBe('hydrOXYzine');
+    expect(tallMan('hydralazine', 'hydroxyzine')).toBe('hydrALAzine');
+    expect(tallMan('Tylenol', 'Lipitor')).toBe('Tylenol');
+  });
+});
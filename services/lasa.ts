@@ -0,0 +1,173 @@
+import { Card, LasaPair } from '../types';
+import { LASA_THRESHOLD } from '../constants';
+
+export type LasaField = LasaPair['field'];
+
+// A look-alike/sound-alike candidate found by scoring; only the user's decision is persisted (as LasaPair)
+export interface LasaSuggestion {
+  id: string;
+  a: Card;
+  b: Card;
+  field: LasaField; // the names that are confusable
+  score: number; // 0–1, combines the two below, weighted toward the stronger one
+  orthographic: number;
+  phonetic: number;
+}
+
+export const pairId = (cardIdA: string, cardIdB: string): string => [cardIdA, cardIdB].sort().join('|');
+
+const normalizeName = (name: string): string =>
+  name.toLowerCase().replace(/[^a-z0-9\s]/g, ' ').replace(/\s+/g, ' ').trim();
+
+// Two-row edit distance; every card pair is scored, so this avoids answerCheck's full matrix
+const editDistance = (a: string, b: string): number => {
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  let current = new Array<number>(b.length + 1);
+  for (let i = 1; i <= a.length; i++) {
+    current[0] = i;
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+    }
+    [previous, current] = [current, previous];
+  }
+  return previous[b.length];
+};
+
+const similarity = (a: string, b: string): number => {
+  const longest = Math.max(a.length, b.length);
+  return longest === 0 ? 0 : 1 - editDistance(a, b) / longest;
+};
+
+type Bigrams = Map<string, number>;
+
+const bigrams = (value: string): Bigrams => {
+  const padded = ` ${value} `;
+  const counts: Bigrams = new Map();
+  for (let i = 0; i < padded.length - 1; i++) {
+    const gram = padded.slice(i, i + 2);
+    counts.set(gram, (counts.get(gram) || 0) + 1);
+  }
+  return counts;
+};
+
+// Dice coefficient over letter pairs; forgiving of transposed chunks that edit distance punishes
+const diceCoefficient = (left: Bigrams, right: Bigrams, total: number): number => {
+  let shared = 0;
+  left.forEach((count, gram) => { shared += Math.min(count, right.get(gram) || 0); });
+  return (2 * shared) / total;
+};
+
+// Length of the shared start and the shared end, never overlapping
+const commonEnds = (a: string, b: string): { prefix: number; suffix: number } => {
+  const shorter = Math.min(a.length, b.length);
+  let prefix = 0;
+  while (prefix < shorter && a[prefix] === b[prefix]) prefix++;
+  let suffix = 0;
+  while (suffix < shorter - prefix && a[a.length - 1 - suffix] === b[b.length - 1 - suffix]) suffix++;
+  return { prefix, suffix };
+};
+
+// Confusions cluster at the start and end of a name (Celebrex/Celexa, hydroxyzine/hydralazine)
+const sharedEnds = (a: string, b: string): number => {
+  const { prefix, suffix } = commonEnds(a, b);
+  return Math.min(1, (prefix + suffix) / Math.min(a.length, b.length));
+};
+
+// A rough English sound key for a normalized name: spellings that sound alike collapse,
+// vowels after the first letter drop out
+const phoneticKey = (name: string): string => {
+  const key = name
+    .replace(/[^a-z]/g, '')
+    .replace(/ph/g, 'f')
+    .replace(/gh/g, 'g')
+    .replace(/th/g, 't')
+    .replace(/ck/g, 'k')
+    .replace(/c(?=[eiy])/g, 's')
+    .replace(/[cq]/g, 'k')
+    .replace(/x/g, 'ks')
+    .replace(/z/g, 's')
+    .replace(/(?<=[aeiou])[wy]|h/g, '');
+  return (key[0] || '') + key.slice(1).replace(/[aeiouy]/g, '').replace(/(.)\1+/g, '$1');
+};
+
+interface ScoredName {
+  value: string;
+  key: string;
+  grams: Bigrams;
+}
+
+const scoredName = (name: string): ScoredName => {
+  const value = normalizeName(name);
+  return { value, key: phoneticKey(value), grams: bigrams(value) };
+};
+
+const combine = (orthographic: number, phonetic: number) => (orthographic + phonetic + Math.max(orthographic, phonetic)) / 3;
+
+// Orthographic similarity averages edit distance, shared letter pairs and shared ends; phonetic compares sound keys.
+// Null when the pair cannot reach the threshold; the cheap parts are scored first to skip most pairs early
+const scoreNames = (a: ScoredName, b: ScoredName, threshold: number) => {
+  const phonetic = similarity(a.key, b.key);
+  const dice = diceCoefficient(a.grams, b.grams, a.value.length + b.value.length + 2);
+  const lengthRatio = Math.min(a.value.length, b.value.length) / Math.max(a.value.length, b.value.length);
+  if (combine((lengthRatio + dice + 1) / 3, phonetic) < threshold) return null;
+
+  const orthographic = (similarity(a.value, b.value) + dice + sharedEnds(a.value, b.value)) / 3;
+  const score = combine(orthographic, phonetic);
+  return score >= threshold ? { orthographic, phonetic, score } : null;
+};
+
+// Both orders of a name pair give the same key
+const nameKey = (field: LasaField, a: string, b: string) => `${field}:${[a, b].sort().join('|')}`;
+
+// Names this far apart in length are never confused, and skipping them keeps large collections fast
+const comparableLength = (a: string, b: string) => Math.min(a.length, b.length) / Math.max(a.length, b.length) >= 0.5;
+
+// Scores every generic against every generic and every brand against every brand, across all decks.
+// Cards for the same drug are skipped. A name pair is suggested once even when both drugs sit in several decks,
+// and not at all once the user has decided on it.
+export const findLasaSuggestions = (cards: Card[], decided: LasaPair[] = [], threshold: number = LASA_THRESHOLD): LasaSuggestion[] => {
+  const names = cards.map(card => ({ card, generic: scoredName(card.generic), brand: scoredName(card.brand) }));
+  const byId = new Map(names.map(n => [n.card.id, n]));
+  const decidedIds = new Set(decided.map(p => p.id));
+  const seen = new Set<string>();
+  for (const pair of decided) {
+    const [a, b] = pair.cardIds.map(id => byId.get(id));
+    if (!a || !b) continue;
+    seen.add(nameKey('generic', a.generic.value, b.generic.value));
+    seen.add(nameKey('brand', a.brand.value, b.brand.value));
+  }
+  const suggestions: LasaSuggestion[] = [];
+
+  for (let i = 0; i < names.length; i++) {
+    for (let j = i + 1; j < names.length; j++) {
+      const a = names[i];
+      const b = names[j];
+      if (a.generic.value === b.generic.value || a.brand.value === b.brand.value) continue;
+      const id = pairId(a.card.id, b.card.id);
+      if (decidedIds.has(id)) continue;
+
+      let best: LasaSuggestion | null = null;
+      for (const field of ['generic', 'brand'] as LasaField[]) {
+        if (!comparableLength(a[field].value, b[field].value)) continue;
+        const scored = scoreNames(a[field], b[field], threshold);
+        if (scored && (!best || scored.score > best.score)) {
+          best = { id, a: a.card, b: b.card, field, ...scored };
+        }
+      }
+      if (!best) continue;
+      const key = nameKey(best.field, a[best.field].value, b[best.field].value);
+      if (seen.has(key)) continue;
+      seen.add(key);
+      suggestions.push(best);
+    }
+  }
+
+  return suggestions.sort((x, y) => y.score - x.score);
+};
+
+// Tall Man lettering as used on pharmacy shelves: the part that differs is capitalised (hydrOXYzine / hydrALAzine)
+export const tallMan = (name: string, other: string): string => {
+  const { prefix, suffix } = commonEnds(name.toLowerCase(), other.toLowerCase());
+  if (prefix === 0 && suffix === 0) return name;
+  return name.slice(0, prefix) + name.slice(prefix, name.length - suffix).toUpperCase() + name.slice(name.length - suffix);
+};
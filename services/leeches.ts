@@ -0,0 +1,16 @@
+import { AppSettings, Card } from '../types';
+import { LEECH_TAG } from '../constants';
+import { addTag, hasTag } from './tags';
+
+// As in Anki: a card turns leech at the threshold, then again every half threshold, so an un-suspended card gets another run
+export const isLeechLapse = (lapses: number, threshold: number): boolean => {
+  if (threshold <= 0 || lapses < threshold) return false;
+  return (lapses - threshold) % Math.ceil(threshold / 2) === 0;
+};
+
+export const markLeech = <T extends Card>(card: T, settings: AppSettings): T => {
+  const tagged = addTag(card, LEECH_TAG) as T;
+  return settings.leechAction === 'suspend' ? { ...tagged, suspended: true } : tagged;
+};
+
+export const isLeech = (card: Card): boolean => hasTag(card, LEECH_TAG);
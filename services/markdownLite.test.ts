@@ -0,0 +1,34 @@
+import { describe, it, expect } from 'vitest';
+import { parseInline, parseNote } from './markdownLite';
+
+describe('parseInline', () => {
+  it('styles bold, italic and code', () => {
+    expect(parseInline('**ACE** inhibitor, *not* an `ARB` or _beta blocker_')).toEqual([
+      { text: 'ACE', bold: true },
+      { text: ' inhibitor, ' },
+      { text: 'not', italic: true },
+      { text: ' an ' },
+      { text: 'ARB', code: true },
+      { text: ' or ' },
+      { text: 'beta blocker', italic: true },
+    ]);
+  });
+
+  it('leaves text the tokens do not match as it is', () => {
+    expect(parseInline('* x *')).toEqual([{ text: '* x *' }]);
+    expect(parseInline('2*3*4 and snake_case_name')).toEqual([{ text: '2*3*4 and snake_case_name' }]);
+    expect(parseInline('_ spaced _')).toEqual([{ text: '_ spaced _' }]);
+  });
+
+  it('returns nothing for an empty line', () => {
+    expect(parseInline('')).toEqual([]);
+  });
+});
+
+describe('parseNote', () => {
+  it('groups bullets into lists and splits paragraphs on blank lines', () => {
+    const blocks = parseNote('Mnemonic:\n- one\n* two\n\nLast line');
+    expect(blocks.map(b => [b.type, b.lines.length])).toEqual([['paragraph', 1], ['list', 2], ['paragraph', 1]]);
+    expect(blocks[1].lines[1]).toEqual([{ text: 'two' }]);
+  });
+});
@@ -0,0 +1,57 @@
+// Markdown-lite for card notes: **bold**, *italic* or _italic_, `code`,
+// "- " / "* " bullet lists, and blank lines between paragraphs. No HTML is ever produced.
+
+export interface InlineSegment {
+  text: string;
+  bold?: boolean;
+  italic?: boolean;
+  code?: boolean;
+}
+
+export interface NoteBlock {
+  type: 'paragraph' | 'list';
+  lines: InlineSegment[][];
+}
+
+// Single * and _ only count at word boundaries, so "2*3*4" and snake_case stay literal.
+// The named group that matched decides the style; text between matches is always plain.
+const INLINE_TOKEN = /\*\*(?<bold>[^*]+)\*\*|`(?<code>[^`]+)`|(?<![\w*])\*(?<star>[^*\s][^*]*)\*(?![\w*])|(?<!\w)_(?<underscore>[^_\s][^_]*)_(?!\w)/g;
+const BULLET = /^\s*[-*•]\s+/;
+
+export const parseInline = (line: string): InlineSegment[] => {
+  const segments: InlineSegment[] = [];
+  let end = 0;
+
+  for (const match of line.matchAll(INLINE_TOKEN)) {
+    if (match.index > end) segments.push({ text: line.slice(end, match.index) });
+    const { bold, code, star, underscore } = match.groups || {};
+    if (bold !== undefined) segments.push({ text: bold, bold: true });
+    else if (code !== undefined) segments.push({ text: code, code: true });
+    else segments.push({ text: star ?? underscore, italic: true });
+    end = match.index + match[0].length;
+  }
+  if (end < line.length) segments.push({ text: line.slice(end) });
+
+  return segments;
+};
+
+export const parseNote = (text: string): NoteBlock[] => {
+  const blocks: NoteBlock[] = [];
+  let current: NoteBlock | null = null;
+
+  for (const raw of text.replace(/\r\n?/g, '\n').split('\n')) {
+    if (!raw.trim()) {
+      current = null;
+      continue;
+    }
+    const isBullet = BULLET.test(raw);
+    const type = isBullet ? 'list' : 'paragraph';
+    if (!current || current.type !== type) {
+      current = { type, lines: [] };
+      blocks.push(current);
+    }
+    current.lines.push(parseInline(isBullet ? raw.replace(BULLET, '') : raw.trim()));
+  }
+
+  return blocks;
+};
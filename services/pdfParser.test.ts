@@ -0,0 +1,92 @@
+import { describe, it, expect } from 'vitest';
+import { buildPdfTable, PdfTextItem } from './pdfParser';
+
+const GENERIC_X = 50;
+const BRAND_X = 200;
+const CLASS_X = 320;
+const ROW_PITCH = 14;
+
+const item = (x: number, y: number, text: string): PdfTextItem => ({ x, y, width: text.length * 5, height: 10, text });
+
+// One table row per entry; a missing cell is left out of the page
+const page = (rows: [string, string, string][], top = 780): PdfTextItem[] =>
+  rows.flatMap(([generic, brand, cls], i) => {
+    const y = top - i * ROW_PITCH;
+    return [
+      generic && item(GENERIC_X, y, generic),
+      brand && item(BRAND_X, y, brand),
+      cls && item(CLASS_X, y, cls),
+    ].filter((it): it is PdfTextItem => Boolean(it));
+  });
+
+describe('buildPdfTable', () => {
+  it('reads cells by column and leaves out headers and page numbers', () => {
+    const items = [
+      ...page([['Generic Name', 'Brand', 'Drug Class'], ['amoxicillin', 'Amoxil  Page', 'Antibiotic'], ['generic drug x', 'Brandy', '']]),
+      item(280, 40, 'Page 1 of 3'),
+    ];
+    const table = buildPdfTable([items]);
+    expect(table.headers).toEqual(['Generic Name', 'Brand', 'Drug Class']);
+    expect(table.rows).toEqual([['amoxicillin', 'Amoxil Page', 'Antibiotic'], ['generic drug x', 'Brandy', '']]);
+    expect(table.confidence[0]).toEqual({ score: 1, issues: [] });
+  });
+
+  it('merges a wrapped cell into the row above', () => {
+    const items = [
+      ...page([['lisinopril', 'Zestril', 'ACE inhibitor'], ['piperacillin sodium/', 'Zosyn', 'Antibiotic']]),
+      item(GENERIC_X, 780 - ROW_PITCH - 10, 'tazobactam'),
+      ...page([['metformin', 'Glucophage', 'Biguanide']], 780 - 3 * ROW_PITCH),
+    ];
+    const table = buildPdfTable([items]);
+    expect(table.rows[1]).toEqual(['piperacillin sodium/tazobactam', 'Zosyn', 'Antibiotic']);
+    expect(table.confidence[1].issues).toContain('Joined from wrapped lines');
+    expect(table.rows).toHaveLength(3);
+  });
+
+  it('keeps a normally spaced row with an empty first cell as its own row', () => {
+    const table = buildPdfTable([page([
+      ['simvastatin', 'Zocor', 'Statin'],
+      ['', 'Lipitor', 'Statin'],
+      ['piperacillin sodium/', 'Zosyn', 'Antibiotic'],
+      ['tazobactam', '', ''],
+      ['metformin', 'Glucophage', 'Biguanide'],
+    ])]);
+    expect(table.rows).toEqual([
+      ['simvastatin', 'Zocor', 'Statin'],
+      ['', 'Lipitor', 'Statin'],
+      ['piperacillin sodium/tazobactam', 'Zosyn', 'Antibiotic'],
+      ['metformin', 'Glucophage', 'Biguanide'],
+    ]);
+  });
+
+  it('splits text that runs up against the next column and flags it', () => {
+    const table = buildPdfTable([[
+      ...page([['lisinopril', 'Zestril', 'ACE inhibitor'], ['', 'Lipitor', 'Statin'], ['metformin', 'Glucophage', 'Biguanide']]),
+      item(GENERIC_X, 780 - ROW_PITCH, 'atorvastatin calcium extended release'),
+    ]]);
+    expect(table.rows[1]).toEqual(['atorvastatin calcium extended release', 'Lipitor', 'Statin']);
+    expect(table.confidence[1].issues).toContain('Text runs across a column boundary');
+  });
+
+  it('keeps a column that is mostly empty on one page and flags that page', () => {
+    const full = page(Array.from({ length: 6 }, (_, i): [string, string, string] => [`drug${i}`, `Brand${i}`, `class${i}`]));
+    const sparse = page([['drug1', '', 'class1'], ['drug2', '', 'class2'], ['drug3', '', 'class3'], ['drug4', 'Brand4', 'class4']]);
+    const table = buildPdfTable([full, sparse]);
+
+    expect(table.rows.slice(6)).toEqual([
+      ['drug1', '', 'class1'],
+      ['drug2', '', 'class2'],
+      ['drug3', '', 'class3'],
+      ['drug4', 'Brand4', 'class4'],
+    ]);
+    expect(table.confidence[9].score).toBeLessThan(0.7);
+    expect(table.confidence[9].issues).toContain('Page layout differs from the rest of the table');
+    expect(table.confidence[0].score).toBe(1);
+  });
+
+  it('falls back to one cell per chunk without a column layout', () => {
+    const table = buildPdfTable([[item(GENERIC_X, 700, 'lisinopril'), item(BRAND_X, 700, 'Zestril')]]);
+    expect(table.rows).toEqual([['lisinopril', 'Zestril']]);
+    expect(table.confidence[0].issues).toContain('No column layout found');
+  });
+});
@@ -1,69 +1,300 @@
-import { ParseResult } from '../types';
+import { RowConfidence } from '../types';
 
-declare global {
-  interface Window {
-    pdfjsLib: any;
-  }
+// A run of text as pdf.js places it; x/y are the baseline start in page units, y grows upward
+export interface PdfTextItem {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  text: string;
+}
+
+// Table rows read back from the page layout; every row has one cell per detected column
+export interface PdfTable {
+  headers: string[] | null; // the first header row found, if any
+  rows: string[][];
+  confidence: RowConfidence[]; // one per row
 }
 
-export const extractTextFromPdf = async (file: File): Promise<string[]> => {
+// pdf.js is large, so it is only loaded once a PDF is actually imported
+const loadPdfJs = async () => {
+  const [pdfjsLib, { default: workerSrc }] = await Promise.all([
+    import('pdfjs-dist'),
+    import('pdfjs-dist/build/pdf.worker.min.mjs?url'),
+  ]);
+  pdfjsLib.GlobalWorkerOptions.workerSrc = workerSrc;
+  return pdfjsLib;
+};
+
+// One array of positioned text items per page
+export const extractPdfItems = async (file: File): Promise<PdfTextItem[][]> => {
   const arrayBuffer = await file.arrayBuffer();
-  const pdf = await window.pdfjsLib.getDocument({ data: arrayBuffer }).promise;
-  let lines: string[] = [];
+  const pdfjsLib = await loadPdfJs();
+  const pdf = await pdfjsLib.getDocument({ data: arrayBuffer }).promise;
+  const pages: PdfTextItem[][] = [];
 
   for (let i = 1; i <= pdf.numPages; i++) {
     const page = await pdf.getPage(i);
     const textContent = await page.getTextContent();
-    
-    let pageLines: { y: number; text: string }[] = [];
-    
+    const items: PdfTextItem[] = [];
+
     for (const item of textContent.items) {
-      const y = Math.round(item.transform[5]); 
-      const text = item.str;
-      
-      const existingLine = pageLines.find(l => Math.abs(l.y - y) < 5);
-      if (existingLine) {
-        existingLine.text += '   ' + text; // Use wider spacing to preserve column identity
-      } else {
-        pageLines.push({ y, text });
-      }
+      if (!('str' in item)) continue; // marked-content markers carry no text
+      if (!item.str.trim()) continue;
+      items.push({
+        x: item.transform[4],
+        y: item.transform[5],
+        width: item.width,
+        height: item.height || Math.abs(item.transform[3]),
+        text: item.str,
+      });
+    }
+    pages.push(items);
+  }
+
+  return pages;
+};
+
+// Gaps are measured in multiples of the line's text height, so the thresholds hold at any font size
+const CHUNK_GAP = 0.8; // a wider gap between two items on a line starts a new chunk (a possible cell)
+const COLUMN_TOLERANCE = 0.8; // chunk starts this close together belong to the same column
+const COLUMN_SUPPORT = 0.25; // share of the lines that must start a chunk at a position for it to be a column
+const WRAP_GAP = 0.75; // lines closer than this share of the usual row pitch are one wrapped row
+
+const HEADER_CELL = /^(generic|brand|trade|drug|name|class|classification|drug class|therapeutic class|category|notes?)( names?)?$/i;
+const PAGE_MARKER = /^(page\s*)?\d+(\s*(of|\/)\s*\d+)?$/i;
+
+interface Chunk {
+  x: number;
+  right: number;
+  text: string;
+}
+
+interface Line {
+  y: number;
+  height: number;
+  items: PdfTextItem[]; // left to right
+  chunks: Chunk[];
+}
+
+interface Row {
+  cells: string[];
+  y: number;
+  lines: number;
+  issues: Set<string>;
+  wrapping: Set<number>; // columns whose text on the last line looks cut off and may go on below
+}
+
+const median = (values: number[]): number => {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+};
+
+const cleanText = (text: string) => text.replace(/\s+/g, ' ').trim();
+
+// Items close together form one chunk; `breakAt` starts a new chunk regardless of the gap
+const chunksOf = (items: PdfTextItem[], height: number, breakAt: (x: number) => boolean = () => false): Chunk[] => {
+  const chunks: Chunk[] = [];
+  for (const item of items) {
+    const last = chunks[chunks.length - 1];
+    if (last && item.x - last.right <= height * CHUNK_GAP && !breakAt(item.x)) {
+      last.text += (item.x - last.right > height * 0.1 ? ' ' : '') + item.text;
+      last.right = Math.max(last.right, item.x + item.width);
+    } else {
+      chunks.push({ x: item.x, right: item.x + item.width, text: item.text });
+    }
+  }
+  return chunks;
+};
+
+// Items on the same baseline form a line
+const groupLines = (items: PdfTextItem[]): Line[] => {
+  const sorted = [...items].sort((a, b) => b.y - a.y || a.x - b.x);
+  const groups: { y: number; height: number; items: PdfTextItem[] }[] = [];
+
+  for (const item of sorted) {
+    const last = groups[groups.length - 1];
+    if (last && last.y - item.y <= Math.max(2, Math.min(last.height, item.height) * 0.5)) {
+      last.items.push(item);
+      last.height = Math.max(last.height, item.height);
+    } else {
+      groups.push({ y: item.y, height: item.height, items: [item] });
+    }
+  }
+
+  return groups.map(group => {
+    const sortedItems = group.items.sort((a, b) => a.x - b.x);
+    return { y: group.y, height: group.height, items: sortedItems, chunks: chunksOf(sortedItems, group.height) };
+  });
+};
+
+// Left edges of the columns: chunk starts that line up on enough of the given lines
+const detectColumns = (lines: Line[], tolerance: number): number[] => {
+  const starts = lines
+    .flatMap((line, lineIndex) => line.chunks.map(chunk => ({ x: chunk.x, lineIndex })))
+    .sort((a, b) => a.x - b.x);
+  const clusters: { left: number; last: number; lines: Set<number> }[] = [];
+
+  for (const start of starts) {
+    const cluster = clusters[clusters.length - 1];
+    if (cluster && start.x - cluster.last <= tolerance) {
+      cluster.last = start.x;
+      cluster.lines.add(start.lineIndex);
+    } else {
+      clusters.push({ left: start.x, last: start.x, lines: new Set([start.lineIndex]) });
     }
-    
-    pageLines.sort((a, b) => b.y - a.y);
-    lines.push(...pageLines.map(pl => pl.text));
   }
 
-  return lines;
+  const needed = Math.max(2, Math.ceil(lines.length * COLUMN_SUPPORT));
+  return clusters.filter(c => c.lines.size >= needed).map(c => c.left);
+};
+
+const columnOf = (x: number, columns: number[], tolerance: number): number => {
+  let index = 0;
+  columns.forEach((left, i) => {
+    if (x + tolerance >= left) index = i;
+  });
+  return index;
+};
+
+// Places each chunk in its column; empty columns stay as '' so later cells never shift left.
+// Text starting right at a column edge opens a new cell even when the cell before ran up against it.
+const lineToCells = (line: Line, columns: number[], tolerance: number) => {
+  const cells = columns.map(() => '');
+  const rights = columns.map(() => 0);
+  const chunkCounts = columns.map(() => 0);
+  const issues: string[] = [];
+  const atColumnEdge = (x: number) => columns.some(left => Math.abs(x - left) <= tolerance);
+
+  for (const chunk of chunksOf(line.items, line.height, atColumnEdge)) {
+    const column = columnOf(chunk.x, columns, tolerance);
+    cells[column] = cells[column] ? `${cells[column]} ${chunk.text}` : chunk.text;
+    rights[column] = Math.max(rights[column], chunk.right);
+    chunkCounts[column]++;
+    const next = columns[column + 1];
+    if (next !== undefined && chunk.right > next + tolerance) issues.push('Text runs across a column boundary');
+  }
+  if (chunkCounts.some(count => count > 1)) issues.push('A cell may hold two columns');
+
+  return { cells: cells.map(cleanText), rights, issues };
+};
+
+const isHeaderLine = (cells: string[]) => {
+  const filled = cells.filter(Boolean);
+  return filled.length >= 2 && filled.filter(cell => HEADER_CELL.test(cell)).length >= Math.ceil(filled.length / 2);
+};
+
+// A wrapped "sodium/" continues straight into "tazobactam"; anything else is joined with a space
+const joinWrapped = (first: string, second: string) => {
+  if (!first || !second) return first || second;
+  return /[/-]$/.test(first) ? first + second : `${first} ${second}`;
 };
 
-export const parseLinesToPairs = (lines: string[]): ParseResult[] => {
-  const pairs: ParseResult[] = [];
-  
-  // Heuristic for multi-column layout
-  // Strategy: Split by 2+ spaces. 
-  // 2 columns: [0]Generic, [1]Brand
-  // 3 columns: [0]Generic, [1]Brand, [2]Classification
-  
-  const headers = ['generic', 'brand', 'classification', 'drug class', 'page', 'hamilton health'];
+// A cell is cut off when it ends on a break character or fills its column up to the next one
+const wrappingColumns = (cells: string[], rights: number[], columns: number[], height: number) =>
+  new Set(cells.flatMap((cell, i) => {
+    const next = columns[i + 1];
+    return cell && (/[/,-]$/.test(cell) || (next !== undefined && rights[i] >= next - height)) ? [i] : [];
+  }));
+
+const lineText = (line: Line) => cleanText(line.chunks.map(c => c.text).join(' '));
+
+// `columns` is the whole table's layout; `pageIssue` is added to every row of a page that does not fit it
+const pageRows = (
+  lines: Line[],
+  columns: number[],
+  tolerance: number,
+  pageIssue: string | null
+): { headers: string[] | null; rows: Row[] } => {
+  const layoutFound = columns.length >= 2;
+  const pitch = median(lines.slice(1).map((line, i) => lines[i].y - line.y));
+  let headers: string[] | null = null;
+  const rows: Row[] = [];
 
   for (const line of lines) {
-    const cleanLine = line.trim();
-    if (!cleanLine) continue;
-    
-    if (headers.some(h => cleanLine.toLowerCase().includes(h))) continue;
-    if (/^\d+$/.test(cleanLine)) continue; 
-
-    // Split by multiple spaces
-    const parts = cleanLine.split(/\s{2,}/).map(p => p.trim()).filter(p => p.length > 0);
-    
-    if (parts.length >= 2) {
-      pairs.push({
-        generic: parts[0],
-        brand: parts[1],
-        classification: parts[2] || 'Unclassified'
-      });
+    // Without a column layout each chunk is taken as its own cell, in reading order
+    const lineColumns = layoutFound ? columns : line.chunks.map(c => c.x);
+    const { cells, rights, issues } = lineToCells(line, lineColumns, tolerance);
+    if (!layoutFound) issues.push('No column layout found');
+    if (pageIssue) issues.push(pageIssue);
+
+    if (isHeaderLine(cells)) {
+      headers = headers || cells;
+      continue;
+    }
+
+    // A line packed closer than the row pitch continues the row above. At the usual spacing it only does when
+    // it fills nothing but cells that were cut off there, so a row with an empty first cell stays a row.
+    const previous = rows[rows.length - 1];
+    const gap = previous ? previous.y - line.y : Infinity;
+    const filled = cells.flatMap((cell, i) => cell ? [i] : []);
+    const wrapsOn = previous && filled.length < previous.cells.filter(Boolean).length && filled.every(i => previous.wrapping.has(i));
+    const continues = previous && layoutFound && gap <= pitch * 1.5 && (gap < pitch * WRAP_GAP || wrapsOn);
+    const wrapping = wrappingColumns(cells, rights, lineColumns, line.height);
+    if (continues) {
+      previous.cells = previous.cells.map((cell, i) => joinWrapped(cell, cells[i] || ''));
+      previous.y = line.y;
+      previous.lines++;
+      previous.wrapping = wrapping;
+      issues.forEach(issue => previous.issues.add(issue));
+    } else {
+      rows.push({ cells, y: line.y, lines: 1, issues: new Set(issues), wrapping });
     }
   }
 
-  return pairs;
-};
\ No newline at end of file
+  return { headers, rows };
+};
+
+const ISSUE_PENALTY: Record<string, number> = {
+  'Text runs across a column boundary': 0.4,
+  'A cell may hold two columns': 0.3,
+  'No column layout found': 0.4,
+  'Page layout differs from the rest of the table': 0.4,
+  'Joined from wrapped lines': 0.2,
+  'Column count differs from most rows': 0.2,
+  'Only one column filled': 0.4,
+};
+
+// 1 for a row that sat cleanly in its columns, lower the more of the layout had to be guessed
+const scoreRow = (row: Row, usualFilled: number): RowConfidence => {
+  const filled = row.cells.filter(Boolean).length;
+  if (row.lines > 1) row.issues.add('Joined from wrapped lines');
+  if (filled <= 1) row.issues.add('Only one column filled');
+  else if (filled !== usualFilled) row.issues.add('Column count differs from most rows');
+
+  const issues = [...row.issues];
+  const score = issues.reduce((total, issue) => total - (ISSUE_PENALTY[issue] || 0), 1);
+  return { score: Math.max(0, Math.round(score * 100) / 100), issues };
+};
+
+// Reads a table back from text positions: columns come from where text starts across all pages, so a page
+// where one column is mostly empty still keeps it. Lines that continue a cell are merged into the row above,
+// and header rows and page numbers are left out.
+export const buildPdfTable = (pages: PdfTextItem[][]): PdfTable => {
+  const pageLines = pages.map(items => groupLines(items).filter(line => !PAGE_MARKER.test(lineText(line))));
+  const allLines = pageLines.flat();
+  const tolerance = median(allLines.map(l => l.height)) * COLUMN_TOLERANCE;
+  const columns = detectColumns(allLines, tolerance);
+
+  let headers: string[] | null = null;
+  const rows: Row[] = [];
+
+  for (const lines of pageLines) {
+    // A page whose own columns disagree may have a shifted or partly empty layout
+    const differs = columns.length >= 2 && detectColumns(lines, tolerance).length !== columns.length;
+    const page = pageRows(lines, columns, tolerance, differs ? 'Page layout differs from the rest of the table' : null);
+    headers = headers || page.headers;
+    rows.push(...page.rows);
+  }
+
+  const columnCount = Math.max(headers?.length || 0, ...rows.map(r => r.cells.length));
+  const usualFilled = Math.round(median(rows.map(r => r.cells.filter(Boolean).length)));
+
+  return {
+    headers,
+    rows: rows.map(r => Array.from({ length: columnCount }, (_, i) => r.cells[i] || '')),
+    confidence: rows.map(r => scoreRow(r, usualFilled)),
+  };
+};
@@ -0,0 +1,91 @@
+import { describe, it, expect } from 'vitest';
+import { Card, Grade, ReviewLog } from '../types';
+import { DEFAULT_SETTINGS } from '../constants';
+import { buildDailyQueue, buryUntil, countToday, isLongTermLog, isStudyable } from './queue';
+import { makeCard } from './testUtils';
+
+const NOW = new Date(2026, 2, 10, 15, 0).getTime();
+const DAY = 24 * 60 * 60 * 1000;
+
+const card = (id: string, overrides: Partial<Card> = {}): Card =>
+  makeCard({ id, deckId: 'deck', generic: id, brand: id.toUpperCase(), dueDate: NOW, createdAt: NOW, updatedAt: NOW, ...overrides });
+
+const log = (cardId: string, overrides: Partial<ReviewLog> = {}): ReviewLog => ({
+  cardId,
+  grade: Grade.Good,
+  studiedAt: NOW,
+  scheduleMode: 'long_term',
+  before: { state: 'review', intervalDays: 3, easeFactor: 2.5 },
+  ...overrides,
+});
+
+describe('isLongTermLog', () => {
+  it('uses the recorded schedule mode', () => {
+    expect(isLongTermLog(log('a'))).toBe(true);
+    expect(isLongTermLog(log('a', { scheduleMode: 'drill' }))).toBe(false);
+    expect(isLongTermLog(log('a', { scheduleMode: 'exam', cram: true }))).toBe(false);
+  });
+
+  it('counts logs without a schedule mode unless they are exam prep', () => {
+    expect(isLongTermLog(log('a', { scheduleMode: undefined }))).toBe(true);
+    expect(isLongTermLog(log('a', { scheduleMode: undefined, cram: true }))).toBe(false);
+  });
+});
+
+describe('countToday', () => {
+  it('ignores drill and exam-prep reviews', () => {
+    const logs = [
+      log('a', { scheduleMode: 'drill', before: { state: 'new', intervalDays: 0, easeFactor: 2.5 } }),
+      log('b', { scheduleMode: 'exam', cram: true }),
+    ];
+    expect(countToday(logs, new Set())).toEqual({ newStudied: 0, reviewsDone: 0 });
+  });
+
+  it('counts every review, not every card', () => {
+    const logs = [log('a'), log('a', { grade: Grade.Again }), log('b')];
+    expect(countToday(logs, new Set())).toEqual({ newStudied: 0, reviewsDone: 3 });
+  });
+
+  it('counts a card found new today once, and not as a review', () => {
+    const logs = [
+      log('a', { before: { state: 'new', intervalDays: 0, easeFactor: 2.5 } }),
+      log('a', { before: { state: 'learning', intervalDays: 0, easeFactor: 2.5 } }),
+      log('b'),
+    ];
+    expect(countToday(logs, new Set())).toEqual({ newStudied: 1, reviewsDone: 1 });
+  });
+
+  it('falls back to earlier history for logs without a before state', () => {
+    const logs = [log('a', { before: undefined }), log('b', { before: undefined })];
+    expect(countToday(logs, new Set(['b']))).toEqual({ newStudied: 1, reviewsDone: 1 });
+  });
+});
+
+describe('buildDailyQueue', () => {
+  const settings = { ...DEFAULT_SETTINGS, newCardsPerDay: 2, reviewsPerDay: 1 };
+
+  it('applies what is left of the daily limits', () => {
+    const cards = [
+      card('n1'), card('n2'), card('n3'),
+      card('r1', { state: 'review', dueDate: NOW - DAY, intervalDays: 3 }),
+      card('r2', { state: 'review', dueDate: NOW - 2 * DAY, intervalDays: 3 }),
+    ];
+    const queue = buildDailyQueue(cards, settings, { newStudied: 1, reviewsDone: 0 }, ['generic_to_brand'], NOW);
+    expect(queue.newCards.map(c => c.id)).toEqual(['n1']);
+    expect(queue.review.map(c => c.id)).toEqual(['r2']);
+  });
+
+  it('leaves out suspended and buried cards', () => {
+    const cards = [card('a', { suspended: true }), card('b', { buriedUntil: buryUntil(NOW) }), card('c')];
+    const queue = buildDailyQueue(cards, settings, { newStudied: 0, reviewsDone: 0 }, ['generic_to_brand'], NOW);
+    expect(queue.newCards.map(c => c.id)).toEqual(['c']);
+  });
+});
+
+describe('buryUntil', () => {
+  it('returns the start of the next local day', () => {
+    const until = new Date(buryUntil(NOW));
+    expect([until.getDate(), until.getHours(), until.getMinutes()]).toEqual([11, 0, 0]);
+    expect(isStudyable(card('a', { buriedUntil: until.getTime() }), until.getTime())).toBe(true);
+  });
+});
@@ -0,0 +1,132 @@
+import { Card, AppSettings, Direction, SchedulingState, ReviewLog } from '../types';
+import { dbService } from './db';
+import { isCardDue, getSchedulingState } from './srs';
+
+const MAIN_DIRECTIONS: Direction[] = ['generic_to_brand', 'brand_to_generic'];
+
+export interface DailyQueue {
+  learning: Card[];
+  review: Card[];
+  newCards: Card[];
+}
+
+export interface TodayCounts {
+  newStudied: number;
+  reviewsDone: number;
+}
+
+export const startOfToday = (now: number = Date.now()): number => {
+  const d = new Date(now);
+  d.setHours(0, 0, 0, 0);
+  return d.getTime();
+};
+
+// Buried cards come back at the start of the next day
+export const buryUntil = (now: number = Date.now()): number => {
+  const d = new Date(startOfToday(now));
+  d.setDate(d.getDate() + 1);
+  return d.getTime();
+};
+
+export const isBuried = (card: Card, now: number = Date.now()): boolean => (card.buriedUntil || 0) > now;
+
+// Suspended and buried cards sit out of every session and the daily counts
+export const isStudyable = (card: Card, now: number = Date.now()): boolean => !card.suspended && !isBuried(card, now);
+
+// Only long-term reviews use up the daily limits; drill and exam-prep reviews never do.
+// Logs written before the schedule mode was recorded count unless they are marked as exam prep.
+export const isLongTermLog = (log: ReviewLog): boolean =>
+  log.scheduleMode ? log.scheduleMode === 'long_term' : !log.cram;
+
+// A card is introduced today when one of today's logs found it new. Logs without a `before` state
+// fall back to `seenBefore`: the cards that have a long-term log from before today.
+// Every other log of today is one review.
+export const countToday = (todayLogs: ReviewLog[], seenBefore: Set<string>): TodayCounts => {
+  const longTerm = todayLogs.filter(isLongTermLog);
+  const introduced = new Set(
+    longTerm
+      .filter(l => (l.before ? l.before.state === 'new' : !seenBefore.has(l.cardId)))
+      .map(l => l.cardId)
+  );
+  return {
+    newStudied: introduced.size,
+    reviewsDone: longTerm.filter(l => !introduced.has(l.cardId)).length,
+  };
+};
+
+export const getTodayCounts = async (now: number = Date.now()): Promise<TodayCounts> => {
+  const dayStart = startOfToday(now);
+  const todayLogs = await dbService.getLogsSince(dayStart);
+
+  // Only logs without a `before` state need the card's history
+  const legacyIds = Array.from(new Set(todayLogs.filter(l => !l.before && isLongTermLog(l)).map(l => l.cardId)));
+  const history = legacyIds.length > 0 ? await dbService.getLogsForCards(legacyIds) : [];
+  const seenBefore = new Set(history.filter(l => l.studiedAt < dayStart && isLongTermLog(l)).map(l => l.cardId));
+
+  return countToday(todayLogs, seenBefore);
+};
+
+// A card is bucketed by its most urgent direction: learning, then due review, then new
+const urgentState = (card: Card, directions: Direction[], settings: AppSettings, now: number): SchedulingState | null => {
+  const states = directions.map(d => getSchedulingState(card, d, settings));
+  return states.find(s => s.state === 'learning' || s.state === 'relearning')
+    || states.find(s => s.state === 'review' && isCardDue(s, now))
+    || states.find(s => s.state === 'new')
+    || null;
+};
+
+export const buildDailyQueue = (
+  cards: Card[],
+  settings: AppSettings,
+  today: TodayCounts,
+  directions: Direction[] = MAIN_DIRECTIONS,
+  now: number = Date.now()
+): DailyQueue => {
+  const learning: { card: Card; due: number }[] = [];
+  const review: { card: Card; due: number }[] = [];
+  const newCards: Card[] = [];
+
+  for (const card of cards) {
+    if (!isStudyable(card, now)) continue;
+    const s = urgentState(card, directions, settings, now);
+    if (!s) continue;
+    if (s.state === 'new') newCards.push(card);
+    else if (s.state === 'review') review.push({ card, due: s.dueDate });
+    else learning.push({ card, due: s.dueDate });
+  }
+
+  const reviewLimit = Math.max(0, settings.reviewsPerDay - today.reviewsDone);
+  const newLimit = Math.max(0, settings.newCardsPerDay - today.newStudied);
+
+  return {
+    learning: learning.sort((a, b) => a.due - b.due).map(e => e.card),
+    review: review.sort((a, b) => a.due - b.due).slice(0, reviewLimit).map(e => e.card),
+    newCards: newCards.sort((a, b) => a.createdAt - b.createdAt).slice(0, newLimit),
+  };
+};
+
+// Pass `today` when building several queues at once, so the logs are read only once
+export const getDailyQueue = async (
+  deckId: string,
+  settings: AppSettings,
+  directions?: Direction[],
+  today?: TodayCounts
+): Promise<DailyQueue> => {
+  const [cards, counts] = await Promise.all([dbService.getCardsForDeck(deckId), today || getTodayCounts()]);
+  return buildDailyQueue(cards, settings, counts, directions);
+};
+
+export interface DeckCounts {
+  newCount: number;
+  learningCount: number;
+  dueCount: number;
+}
+
+export const getDeckCounts = async (deckId: string, settings: AppSettings, today: TodayCounts): Promise<DeckCounts> => {
+  const queue = await getDailyQueue(deckId, settings, undefined, today);
+  return {
+    newCount: queue.newCards.length,
+    learningCount: queue.learning.length,
+    dueCount: queue.review.length,
+  };
+};
@@ -0,0 +1,83 @@
+import { Card, Direction, StudyMode } from '../types';
+
+interface DirectionFields {
+  prompt: 'generic' | 'brand' | 'classification';
+  answer: 'generic' | 'brand' | 'classification';
+  promptLabel: string;
+  answerLabel: string;
+  question: string;
+}
+
+export const DIRECTION_FIELDS: Record<Direction, DirectionFields> = {
+  generic_to_brand: { prompt: 'generic', answer: 'brand', promptLabel: 'Generic Name', answerLabel: 'Brand Name', question: 'Brand name?' },
+  brand_to_generic: { prompt: 'brand', answer: 'generic', promptLabel: 'Brand Name', answerLabel: 'Generic Name', question: 'Generic name?' },
+  generic_to_class: { prompt: 'generic', answer: 'classification', promptLabel: 'Generic Name', answerLabel: 'Classification', question: 'What class is this?' },
+  class_to_generic: { prompt: 'classification', answer: 'generic', promptLabel: 'Classification', answerLabel: 'Generic Name', question: 'Name a drug in this class' },
+};
+
+export const DIRECTION_LABELS: Record<Direction, string> = {
+  generic_to_brand: 'Generic → Brand',
+  brand_to_generic: 'Brand → Generic',
+  generic_to_class: 'Generic → Class',
+  class_to_generic: 'Class → Generic',
+};
+
+export const getModeDirections = (mode: StudyMode): Direction[] => {
+  switch (mode) {
+    case 'generic_to_brand': return ['generic_to_brand'];
+    case 'brand_to_generic': return ['brand_to_generic'];
+    case 'generic_to_class': return ['generic_to_class'];
+    case 'class_to_generic': return ['class_to_generic'];
+    case 'multiple_choice': return ['generic_to_brand', 'brand_to_generic', 'generic_to_class', 'class_to_generic'];
+    default: return ['generic_to_brand', 'brand_to_generic'];
+  }
+};
+
+const classTokens = (classification: string): Set<string> =>
+  new Set(
+    classification
+      .toLowerCase()
+      .split(/[^a-z0-9]+/)
+      .filter(t => t.length > 1)
+  );
+
+// Jaccard overlap of the words in two classifications, e.g. "Beta-Blocker (Cardioselective)" vs "Beta-Blocker (Non-Selective)"
+export const classSimilarity = (a: string, b: string): number => {
+  const ta = classTokens(a);
+  const tb = classTokens(b);
+  if (ta.size === 0 || tb.size === 0) return 0;
+  let shared = 0;
+  ta.forEach(t => { if (tb.has(t)) shared++; });
+  return shared / (ta.size + tb.size - shared);
+};
+
+const sameText = (a: string, b: string) => a.trim().toLowerCase() === b.trim().toLowerCase();
+
+// Distractors come from the cards whose class is closest to the asked card's, so wrong options stay plausible
+export const buildChoices = (card: Card, direction: Direction, pool: Card[], count: number = 4): string[] => {
+  const { answer } = DIRECTION_FIELDS[direction];
+  const correct = card[answer];
+
+  const candidates = pool
+    .filter(c => c.id !== card.id && !sameText(c[answer], correct))
+    // Any drug in the same class would also be a right answer
+    .filter(c => direction !== 'class_to_generic' || !sameText(c.classification, card.classification))
+    .map(c => ({ value: c[answer], score: classSimilarity(card.classification, c.classification) + Math.random() * 0.1 }))
+    .sort((a, b) => b.score - a.score);
+
+  const distractors: string[] = [];
+  for (const candidate of candidates) {
+    if (distractors.length >= count - 1) break;
+    if (!distractors.some(d => sameText(d, candidate.value))) distractors.push(candidate.value);
+  }
+
+  const choices = [correct, ...distractors];
+  for (let i = choices.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [choices[i], choices[j]] = [choices[j], choices[i]];
+  }
+  return choices;
+};
+
+export const isChoiceCorrect = (card: Card, direction: Direction, choice: string): boolean =>
+  sameText(choice, card[DIRECTION_FIELDS[direction].answer]);
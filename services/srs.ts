@@ -1,10 +1,11 @@
-import { Card, Grade, AppSettings } from '../types';
+import { Card, Grade, AppSettings, Direction, SchedulingState, SchedulerAlgorithm } from '../types';
 import { MIN_EASE_FACTOR } from '../constants';
+import { fsrsNextReview } from './fsrs';
 
 const MILLISECONDS_IN_DAY = 24 * 60 * 60 * 1000;
 const MILLISECONDS_IN_MINUTE = 60 * 1000;
 
-export const calculateNextReview = (card: Card, grade: Grade, settings: AppSettings): Partial<Card> => {
+export const calculateNextReview = (card: SchedulingState, grade: Grade, settings: AppSettings): Partial<SchedulingState> => {
   const now = Date.now();
   let { intervalDays, easeFactor, repetitions, state, lapses } = card;
 
@@ -21,8 +22,8 @@ export const calculateNextReview = (card: Card, grade: Grade, settings: AppSetti
     };
   }
 
-  // Handle Learning / New Phase
-  if (state === 'new' || state === 'learning') {
+  // Handle Learning / New Phase (relearning arrives from FSRS lapses)
+  if (state === 'new' || state === 'learning' || state === 'relearning') {
     if (grade >= Grade.Good) {
       // Graduate
       return {
@@ -76,8 +77,74 @@ export const calculateNextReview = (card: Card, grade: Grade, settings: AppSetti
   return {}; 
 };
 
-export const getSchedulingDescription = (card: Card, grade: Grade, settings: AppSettings): string => {
-  const next = calculateNextReview(card, grade, settings);
+export interface Scheduler {
+  label: string;
+  nextReview: (state: SchedulingState, grade: Grade, settings: AppSettings) => Partial<SchedulingState>;
+}
+
+export const SCHEDULERS: Record<SchedulerAlgorithm, Scheduler> = {
+  sm2: {
+    label: 'SM-2',
+    // FSRS memory state goes stale once SM-2 takes over; FSRS re-derives it from interval and ease
+    nextReview: (state, grade, settings) => ({ ...calculateNextReview(state, grade, settings), stability: undefined, difficulty: undefined }),
+  },
+  fsrs: {
+    label: 'FSRS',
+    nextReview: (state, grade, settings) => fsrsNextReview(state, grade, settings),
+  },
+};
+
+export const scheduleReview = (state: SchedulingState, grade: Grade, settings: AppSettings): Partial<SchedulingState> =>
+  (SCHEDULERS[settings.algorithm] || SCHEDULERS.sm2).nextReview(state, grade, settings);
+
+export const isCardDue = (card: SchedulingState, now: number = Date.now()): boolean => {
+  return card.state === 'new' || card.dueDate <= now;
+};
+
+// generic→brand is the card's own SRS fields; every other direction lives in card.directions
+export const PRIMARY_DIRECTION: Direction = 'generic_to_brand';
+
+export const newSchedulingState = (settings: AppSettings, now: number = Date.now()): SchedulingState => ({
+  dueDate: now,
+  intervalDays: 0,
+  easeFactor: settings.initialEaseFactor,
+  repetitions: 0,
+  lapses: 0,
+  state: 'new',
+});
+
+const primaryState = (card: Card): SchedulingState => {
+  const { dueDate, intervalDays, easeFactor, repetitions, lapses, state, stability, difficulty } = card;
+  return { dueDate, intervalDays, easeFactor, repetitions, lapses, state, stability, difficulty };
+};
+
+export const getSchedulingState = (card: Card, direction: Direction, settings: AppSettings): SchedulingState => {
+  if (direction === PRIMARY_DIRECTION) return primaryState(card);
+  return card.directions?.[direction] || newSchedulingState(settings, card.createdAt);
+};
+
+export const applySchedulingState = (card: Card, direction: Direction, next: SchedulingState): Card => {
+  if (direction === PRIMARY_DIRECTION) return { ...card, ...next };
+  return { ...card, directions: { ...card.directions, [direction]: next } };
+};
+
+// Only the directions that have actually been scheduled (the primary one always is)
+export const listSchedulingStates = (card: Card): { direction: Direction; state: SchedulingState }[] => [
+  { direction: PRIMARY_DIRECTION, state: primaryState(card) },
+  ...Object.entries(card.directions || {}).map(([direction, state]) => ({ direction: direction as Direction, state: state! })),
+];
+
+export const totalLapses = (card: Card): number =>
+  listSchedulingStates(card).reduce((sum, entry) => sum + entry.state.lapses, 0);
+
+// Before schema v6 both name directions shared the card's fields; give brand→generic a copy so no progress is lost
+export const splitLegacyScheduling = (card: Card): Card => {
+  if (card.directions?.brand_to_generic) return card;
+  return { ...card, directions: { ...card.directions, brand_to_generic: primaryState(card) } };
+};
+
+export const getSchedulingDescription = (card: SchedulingState, grade: Grade, settings: AppSettings): string => {
+  const next = scheduleReview(card, grade, settings);
   if (!next.dueDate) return '?';
   
   const diff = next.dueDate - Date.now();
@@ -0,0 +1,52 @@
+import { describe, it, expect } from 'vitest';
+import { Deck, Grade, ReviewLog } from '../types';
+import { buildStats } from './stats';
+import { makeCard } from './testUtils';
+
+// Clocks go forward on 8 March 2026 here, so that day is 23 hours long
+process.env.TZ = 'America/Toronto';
+
+const at = (day: number, hours: number, minutes = 0) => new Date(2026, 2, day, hours, minutes).getTime();
+
+const deck: Deck = { id: 'd1', name: 'Cardio', createdAt: 0 };
+
+const log = (studiedAt: number, overrides: Partial<ReviewLog> = {}): ReviewLog => ({
+  cardId: 'c1',
+  grade: Grade.Good,
+  studiedAt,
+  direction: 'generic_to_brand',
+  ...overrides,
+});
+
+describe('buildStats', () => {
+  it('puts reviews on their calendar day across a DST change', () => {
+    const logs = [log(at(7, 23, 30)), log(at(8, 0, 15)), log(at(10, 0, 5))];
+    const stats = buildStats([deck], [makeCard()], logs, 5, at(10, 12));
+    expect(stats.reviewsPerDay.map(d => new Date(d.dayStart).getDate())).toEqual([6, 7, 8, 9, 10]);
+    expect(stats.reviewsPerDay.map(d => d.count)).toEqual([0, 1, 1, 0, 1]);
+  });
+
+  it('forecasts due dates on their calendar day across a DST change', () => {
+    const cards = [
+      makeCard({ id: 'a', state: 'review', dueDate: at(8, 23, 30) }),
+      makeCard({ id: 'b', state: 'review', dueDate: at(9, 0, 30) }),
+      makeCard({ id: 'c', state: 'review', dueDate: at(1, 9) }),
+    ];
+    const stats = buildStats([deck], cards, [], 3, at(7, 12));
+    expect(stats.forecast.map(d => d.count)).toEqual([1, 1, 1]);
+  });
+
+  it('leaves drill and exam-prep reviews out of retention but counts them per day', () => {
+    const logs = [
+      log(at(10, 9), { scheduleMode: 'long_term' }),
+      log(at(10, 9), { scheduleMode: 'drill', grade: Grade.Again }),
+      log(at(10, 9), { scheduleMode: 'exam', cram: true, grade: Grade.Again }),
+      log(at(10, 9), { cram: true, grade: Grade.Again }),
+    ];
+    const stats = buildStats([deck], [makeCard()], logs, 1, at(10, 12));
+    expect(stats.reviewsPerDay[0].count).toBe(4);
+    for (const rows of [stats.retentionByDeck, stats.retentionByClass, stats.retentionByDirection]) {
+      expect(rows).toEqual([expect.objectContaining({ total: 1, passed: 1, rate: 1 })]);
+    }
+  });
+});
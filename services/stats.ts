@@ -0,0 +1,117 @@
+import { Card, Deck, ReviewLog, Grade } from '../types';
+import { startOfToday, isLongTermLog } from './queue';
+import { DIRECTION_LABELS } from './quiz';
+import { listSchedulingStates, totalLapses } from './srs';
+
+export interface DayCount {
+  dayStart: number;
+  count: number;
+}
+
+export interface RetentionRow {
+  key: string;
+  label: string;
+  total: number;
+  passed: number; // non-Again answers
+  rate: number;
+}
+
+export interface StatsSummary {
+  reviewsPerDay: DayCount[];
+  retentionByDeck: RetentionRow[];
+  retentionByClass: RetentionRow[];
+  retentionByDirection: RetentionRow[];
+  forecast: DayCount[];
+  troubleCards: Card[];
+  totalReviews: number;
+}
+
+// Calendar days, not 24h steps: a day with a DST change is 23 or 25 hours long
+const addDays = (dayStart: number, days: number): number => {
+  const d = new Date(dayStart);
+  d.setDate(d.getDate() + days);
+  return d.getTime();
+};
+
+const dayBuckets = (firstDay: number, days: number): DayCount[] =>
+  Array.from({ length: days }, (_, i) => ({ dayStart: addDays(firstDay, i), count: 0 }));
+
+// -1 before the first day, buckets.length after the last one
+const bucketIndex = (buckets: DayCount[], time: number): number => {
+  if (time < buckets[0].dayStart) return -1;
+  if (time >= addDays(buckets[buckets.length - 1].dayStart, 1)) return buckets.length;
+  let low = 0;
+  let high = buckets.length - 1;
+  while (low < high) {
+    const mid = Math.ceil((low + high) / 2);
+    if (buckets[mid].dayStart <= time) low = mid;
+    else high = mid - 1;
+  }
+  return low;
+};
+
+const toRetentionRows = (groups: Map<string, { label: string; total: number; passed: number }>): RetentionRow[] =>
+  Array.from(groups.entries())
+    .map(([key, g]) => ({ key, label: g.label, total: g.total, passed: g.passed, rate: g.total ? g.passed / g.total : 0 }))
+    .sort((a, b) => a.rate - b.rate || b.total - a.total);
+
+export const buildStats = (decks: Deck[], cards: Card[], logs: ReviewLog[], days: number = 30, now: number = Date.now()): StatsSummary => {
+  const today = startOfToday(now);
+  const cardsById = new Map(cards.map(c => [c.id, c]));
+  const deckNames = new Map(decks.map(d => [d.id, d.name]));
+
+  const reviewsPerDay = dayBuckets(addDays(today, -(days - 1)), days);
+
+  const byDeck = new Map<string, { label: string; total: number; passed: number }>();
+  const byClass = new Map<string, { label: string; total: number; passed: number }>();
+  const byDirection = new Map<string, { label: string; total: number; passed: number }>();
+  const tally = (groups: typeof byDeck, key: string, label: string, passed: boolean) => {
+    const g = groups.get(key) || { label, total: 0, passed: 0 };
+    g.total++;
+    if (passed) g.passed++;
+    groups.set(key, g);
+  };
+
+  for (const log of logs) {
+    const idx = bucketIndex(reviewsPerDay, log.studiedAt);
+    if (idx >= 0 && idx < days) reviewsPerDay[idx].count++;
+
+    // Drill and exam-prep reviews count per day but would skew retention
+    if (!isLongTermLog(log)) continue;
+
+    if (log.direction) tally(byDirection, log.direction, DIRECTION_LABELS[log.direction], log.grade !== Grade.Again);
+
+    // Logs of deleted cards still count per day but cannot be attributed to a deck or class
+    const card = cardsById.get(log.cardId);
+    if (!card) continue;
+    const passed = log.grade !== Grade.Again;
+    tally(byDeck, card.deckId, deckNames.get(card.deckId) || 'Deleted deck', passed);
+    const cls = card.classification || 'Unclassified';
+    tally(byClass, cls, cls, passed);
+  }
+
+  // Each scheduled direction is its own review item; overdue ones land on today
+  const forecast = dayBuckets(today, days);
+  for (const card of cards) {
+    for (const { state } of listSchedulingStates(card)) {
+      if (state.state === 'new') continue;
+      const idx = Math.max(0, bucketIndex(forecast, state.dueDate));
+      if (idx < days) forecast[idx].count++;
+    }
+  }
+
+  const troubleCards = cards
+    .filter(c => totalLapses(c) > 0 || c.difficultyScore > 0)
+    .sort((a, b) => totalLapses(b) - totalLapses(a) || b.difficultyScore - a.difficultyScore)
+    .slice(0, 10);
+
+  return {
+    reviewsPerDay,
+    retentionByDeck: toRetentionRows(byDeck),
+    retentionByClass: toRetentionRows(byClass),
+    retentionByDirection: toRetentionRows(byDirection),
+    forecast,
+    troubleCards,
+    totalReviews: logs.length,
+  };
+};
@@ -0,0 +1,17 @@
+import { Card } from '../types';
+
+// Tags are stored lowercase so the multiEntry index can look them up exactly
+export const normalizeTags = (tags: string[]): string[] =>
+  Array.from(new Set(tags.map(t => t.trim().replace(/^#/, '').toLowerCase()).filter(t => t)));
+
+// "week5, cardio #exam" → ['week5', 'cardio', 'exam']
+export const parseTags = (value: string): string[] => normalizeTags(value.split(/[\s,;]+/));
+
+export const hasTag = (card: Card, tag: string): boolean => (card.tags || []).includes(tag.toLowerCase());
+
+export const addTag = (card: Card, tag: string): Card => ({ ...card, tags: normalizeTags([...(card.tags || []), tag]) });
+
+export const removeTag = (card: Card, tag: string): Card => ({ ...card, tags: (card.tags || []).filter(t => t !== tag.toLowerCase()) });
+
+export const collectTags = (cards: Card[]): string[] =>
+  Array.from(new Set(cards.flatMap(c => c.tags || []))).sort();
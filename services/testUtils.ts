@@ -0,0 +1,22 @@
+import { Card } from '../types';
+
+// A new card with every required field filled in; tests override only the fields they check
+export const makeCard = (overrides: Partial<Card> = {}): Card => ({
+  id: 'c1',
+  deckId: 'd1',
+  generic: 'lisinopril',
+  brand: 'Zestril',
+  classification: 'ACE inhibitor',
+  notes: '',
+  tags: [],
+  difficultyScore: 0,
+  dueDate: 0,
+  intervalDays: 0,
+  easeFactor: 2.5,
+  repetitions: 0,
+  lapses: 0,
+  state: 'new',
+  createdAt: 0,
+  updatedAt: 0,
+  ...overrides,
+});
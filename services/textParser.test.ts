@@ -0,0 +1,60 @@
+import { describe, it, expect } from 'vitest';
+import { parseAnkiText, parseDelimited } from './textParser';
+import { guessColumnMapping } from './importParsers';
+
+describe('parseDelimited', () => {
+  it('reads quoted fields with delimiters, newlines and doubled quotes', () => {
+    const text = 'generic,brand,notes\r\nlisinopril,"Zestril, Prinivil","ends in ""-pril""\nACE inhibitor"\n';
+    expect(parseDelimited(text, ',')).toEqual([
+      ['generic', 'brand', 'notes'],
+      ['lisinopril', 'Zestril, Prinivil', 'ends in "-pril"\nACE inhibitor'],
+    ]);
+  });
+
+  it('trims cells and drops blank rows', () => {
+    expect(parseDelimited(' a \t b \n\n\t\nc\td', '\t')).toEqual([['a', 'b'], ['c', 'd']]);
+  });
+});
+
+describe('parseAnkiText', () => {
+  it('reads the separator, html and column headers', () => {
+    const text = [
+      '#separator:semicolon',
+      '#html:true',
+      '#columns:Front;Back;Tags',
+      'lisinopril;"<b>Zestril</b>&nbsp;tabs";cardio',
+    ].join('\n');
+    expect(parseAnkiText(text)).toEqual({
+      rows: [['lisinopril', 'Zestril tabs', 'cardio']],
+      columnNames: { 0: 'Front', 1: 'Back', 2: 'Tags' },
+      tagsColumn: 2,
+    });
+  });
+
+  it('reads named column headers', () => {
+    const result = parseAnkiText('#separator:tab\n#tags column:3\n#deck column:1\nCardio\tlisinopril\tcardio');
+    expect(result.columnNames).toEqual({ 0: 'deck', 2: 'tags' });
+    expect(result.tagsColumn).toBe(2);
+  });
+
+  it('keeps a quoted field line that starts with # as data', () => {
+    const text = '#separator:comma\nlisinopril,"Zestril\n#1 seller"\nmetformin,Glucophage';
+    expect(parseAnkiText(text).rows).toEqual([
+      ['lisinopril', 'Zestril\n#1 seller'],
+      ['metformin', 'Glucophage'],
+    ]);
+  });
+});
+
+describe('guessColumnMapping', () => {
+  it('maps columns by their header names', () => {
+    expect(guessColumnMapping(['Notes', 'Brand Name', 'Drug Name', 'Class', 'Tags'], 5)).toEqual({
+      generic: 2, brand: 1, classification: 3, notes: 0, tags: 4,
+    });
+  });
+
+  it('falls back to Generic, Brand, Class order', () => {
+    expect(guessColumnMapping([], 2)).toEqual({ generic: 0, brand: 1 });
+    expect(guessColumnMapping(['Front', 'x', 'y'], 3)).toEqual({ generic: 0, brand: 1, classification: 2 });
+  });
+});
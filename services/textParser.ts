@@ -0,0 +1,124 @@
+// Plain-text table formats: CSV, TSV and Anki's "Notes in Plain Text" export
+
+export const parseDelimited = (text: string, delimiter: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+
+    if (inQuotes) {
+      if (ch === '"') {
+        if (text[i + 1] === '"') {
+          field += '"';
+          i++;
+        } else {
+          inQuotes = false;
+        }
+      } else {
+        field += ch;
+      }
+    } else if (ch === '"' && field === '') {
+      inQuotes = true;
+    } else if (ch === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += ch;
+    }
+  }
+
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows
+    .map(r => r.map(cell => cell.trim()))
+    .filter(r => r.some(cell => cell.length > 0));
+};
+
+const ANKI_SEPARATORS: Record<string, string> = {
+  tab: '\t',
+  comma: ',',
+  semicolon: ';',
+  space: ' ',
+  pipe: '|',
+  colon: ':',
+};
+
+const stripHtml = (value: string): string => {
+  return value
+    .replace(/<br\s*\/?>/gi, ' ')
+    .replace(/<[^>]+>/g, '')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/&amp;/g, '&')
+    .replace(/\s+/g, ' ')
+    .trim();
+};
+
+export interface AnkiTextResult {
+  rows: string[][];
+  // Column names from "#columns:" or "#<name> column:<n>" headers, by index
+  columnNames: Record<number, string>;
+  tagsColumn: number | null;
+}
+
+export const parseAnkiText = (text: string): AnkiTextResult => {
+  let delimiter = '\t';
+  let html = false;
+  let tagsColumn: number | null = null;
+  let declaredColumns: string | null = null;
+  const columnNames: Record<number, string> = {};
+  const lines = text.split(/\r?\n/);
+  // Headers only come before the first record; later a line starting with "#" may be part of a quoted field
+  const headerCount = lines.findIndex(line => !line.startsWith('#'));
+  const headers = headerCount === -1 ? lines : lines.slice(0, headerCount);
+  const body = headerCount === -1 ? [] : lines.slice(headerCount);
+
+  for (const line of headers) {
+    const match = line.match(/^#([^:]+):(.*)$/);
+    if (!match) continue;
+    const key = match[1].trim().toLowerCase();
+    const value = match[2].trim();
+
+    if (key === 'separator') {
+      delimiter = ANKI_SEPARATORS[value.toLowerCase()] ?? value;
+    } else if (key === 'html') {
+      html = value === 'true';
+    } else if (key === 'columns') {
+      declaredColumns = value;
+    } else if (key.endsWith(' column')) {
+      const index = parseInt(value, 10) - 1;
+      if (isNaN(index)) continue;
+      const name = key.replace(/ column$/, '');
+      columnNames[index] = name;
+      if (name === 'tags') tagsColumn = index;
+    }
+  }
+
+  // "#columns:" is split with the final separator, which may be declared after it
+  if (declaredColumns) {
+    declaredColumns.split(delimiter).forEach((name, i) => {
+      columnNames[i] = name.trim();
+      if (name.trim().toLowerCase() === 'tags') tagsColumn = i;
+    });
+  }
+
+  let rows = parseDelimited(body.join('\n'), delimiter);
+  if (html) rows = rows.map(r => r.map(stripHtml));
+
+  return { rows, columnNames, tagsColumn };
+};
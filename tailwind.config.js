@@ -0,0 +1,10 @@
+/** @type {import('tailwindcss').Config} */
+export default {
+  content: ['./index.html', './*.{ts,tsx}', './components/**/*.{ts,tsx}', './services/**/*.{ts,tsx}'],
+  // App toggles the `dark` class from settings
+  darkMode: 'class',
+  theme: {
+    extend: {},
+  },
+  plugins: [],
+};
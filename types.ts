@@ -1,3 +1,20 @@
+export type CardState = 'new' | 'learning' | 'review' | 'relearning';
+
+export type Direction = 'generic_to_brand' | 'brand_to_generic' | 'generic_to_class' | 'class_to_generic';
+
+// The SRS fields one review item is scheduled by
+export interface SchedulingState {
+  dueDate: number;
+  intervalDays: number;
+  easeFactor: number;
+  repetitions: number;
+  lapses: number;
+  state: CardState;
+  // FSRS memory state; filled in lazily the first time FSRS schedules the item
+  stability?: number;
+  difficulty?: number;
+}
+
 export interface Card {
   id: string;
   deckId: string;
@@ -16,16 +33,45 @@ export interface Card {
   easeFactor: number;
   repetitions: number;
   lapses: number;
-  state: 'new' | 'learning' | 'review' | 'relearning';
+  state: CardState;
+  stability?: number;
+  difficulty?: number;
+
+  // The SRS fields above schedule generic→brand; every other direction is scheduled here
+  directions?: Partial<Record<Direction, SchedulingState>>;
+
+  // Exam-prep scheduling, kept apart so cramming never touches the long-term fields
+  cram?: CramState;
   
   createdAt: number;
   updatedAt: number;
+  userEdited?: boolean; // content changed by hand; preloaded sync must not overwrite it
+  suspended?: boolean; // left out of every study session and the daily counts until restored by hand
+  buriedUntil?: number; // left out like a suspended card until this time (the next day's start)
+}
+
+export interface CramState {
+  examDate: number; // the exam this state was built for; a new date starts over
+  dueDate: number;
+  reviews: number; // successful cram reviews so far
+  introducedAt: number;
+}
+
+// Query behind a filtered deck; every criterion that is set must match
+export interface DeckFilter {
+  deckIds: string[]; // source decks; empty means all decks
+  classifications: string[]; // case-insensitive substrings, any may match
+  tags: string[]; // any may match
+  minDifficulty: number; // difficultyScore at least this
+  minLapses: number; // lapses over all directions at least this
 }
 
 export interface Deck {
   id: string;
   name: string;
   createdAt: number;
+  examDate?: number; // local midnight of the exam day
+  filter?: DeckFilter; // set on filtered decks, which own no cards and gather them by query
 }
 
 export enum Grade {
@@ -42,27 +88,146 @@ export interface AppSettings {
   reviewsPerDay: number;
   initialEaseFactor: number;
   easyBonus: number;
+  algorithm: SchedulerAlgorithm;
+  targetRetention: number; // FSRS: desired probability of recall at the due date
+  fsrsWeights: number[];
+  sessionExpiryHours: number; // unfinished sessions older than this are not offered for resume
+  sessionPreset: SessionPreset | 'custom';
+  session: SessionParams;
+  leechThreshold: number; // lapses that make a card a leech; 0 turns detection off
+  leechAction: LeechAction;
+}
+
+export type LeechAction = 'tag' | 'suspend';
+
+export type SessionPreset = 'gentle' | 'standard' | 'intense';
+
+// How a study session batches and repeats cards; intervals are in minutes
+export interface SessionParams {
+  batchSize: number;
+  rotateAfterConfident: number; // the batch rotates once more than this many of its cards are confident
+  reinforceEvery: number; // an easy-pool card is mixed in after this many cards
+  confidentStreak: number; // Good answers in a row that make a card confident
+  intervals: { again: number; hard: number; good: number; easy: number };
 }
 
-export type StudyMode = 'generic_to_brand' | 'brand_to_generic' | 'mixed';
+export type SchedulerAlgorithm = 'sm2' | 'fsrs';
+
+export type StudyMode =
+  | 'generic_to_brand'
+  | 'brand_to_generic'
+  | 'mixed'
+  | 'typed'
+  | 'generic_to_class'
+  | 'class_to_generic'
+  | 'multiple_choice';
+
+// 'drill' cycles the whole deck with fixed session intervals, 'long_term' runs due/new cards through the SRS engine,
+// 'exam' compresses reviews into the days left before the deck's exam date
+export type ScheduleMode = 'drill' | 'long_term' | 'exam';
+
+// The long-term scheduling fields of the reviewed direction, as logged around a review
+export interface ReviewLogState {
+  state: CardState;
+  intervalDays: number;
+  easeFactor: number;
+}
 
+// Fields after `studiedAt` are missing on logs written before they were tracked
 export interface ReviewLog {
+  id?: number; // auto-increment key, assigned when the log is added
   cardId: string;
   grade: Grade;
   studiedAt: number;
+  direction?: Direction;
+  cram?: boolean; // exam-prep review; left out of long-term scheduling stats
+  mode?: StudyMode;
+  scheduleMode?: ScheduleMode;
+  responseMs?: number; // from showing the card to revealing the answer
+  before?: ReviewLogState;
+  after?: ReviewLogState; // equals `before` when the review did not touch long-term scheduling (drill, exam)
+}
+
+// Records a deleted preloaded deck/card so syncPreloadedDecks does not recreate it
+export interface Tombstone {
+  id: string;
+  type: 'deck' | 'card';
+  deletedAt: number;
+}
+
+export interface BackupFile {
+  app: 'ankidrug';
+  version: number; // DB_VERSION the backup was written with
+  exportedAt: number;
+  decks: Deck[];
+  cards: Card[];
+  logs: ReviewLog[];
+  settings: AppSettings | null;
+  tombstones: Tombstone[];
+  lasaPairs: LasaPair[]; // missing from backups written before schema v10
+}
+
+export type RestoreMode = 'replace' | 'merge';
+
+// A look-alike/sound-alike pair the user has ruled on; suggestions themselves are recomputed, never stored
+export interface LasaPair {
+  id: string; // both card ids, sorted and joined with '|'
+  cardIds: [string, string];
+  field: 'generic' | 'brand'; // the names that look or sound alike
+  status: 'confirmed' | 'dismissed';
+  decidedAt: number;
+  drills: number; // contrastive drills of this pair
+  mixUps: number; // drills where the two were mixed up
 }
 
 // Ephemeral Session State per Card
 export interface SessionCard extends Card {
-  sessionState: 'unseen' | 'active' | 'easyPool';
+  sessionState: 'unseen' | 'active' | 'easyPool' | 'done';
   sessionDueTime: number; 
   sessionConfident: boolean;
   sessionGoodStreak: number;
   lastShownAt: number;
 }
 
+// An unfinished StudySession; card content is reloaded on resume, only session progress is kept
+export interface SessionSnapshot {
+  deckId: string;
+  mode: StudyMode;
+  scheduleMode: ScheduleMode;
+  savedAt: number;
+  cards: Pick<SessionCard, 'id' | 'sessionState' | 'sessionDueTime' | 'sessionConfident' | 'sessionGoodStreak' | 'lastShownAt'>[];
+  currentCardId: string | null;
+  direction: Direction;
+  cardsSinceReinforcement: number;
+  lastShownId: string | null;
+}
+
 export interface ParseResult {
   generic: string;
   brand: string;
   classification: string;
+  notes?: string;
+  tags?: string[];
+  confidence?: RowConfidence; // set by parsers that read the row from a page layout (PDF)
+}
+
+// How sure a parser is that a row was read correctly, with the reasons it is less than sure
+export interface RowConfidence {
+  score: number; // 0–1
+  issues: string[];
+}
+
+export type ImportFormat = 'pdf' | 'csv' | 'tsv' | 'anki_text';
+
+export type ImportField = 'generic' | 'brand' | 'classification' | 'notes' | 'tags';
+
+// Column index per field; unmapped fields are left out
+export type ColumnMapping = Partial<Record<ImportField, number>>;
+
+export interface ImportTable {
+  headers: string[];
+  rows: string[][];
+  mapping: ColumnMapping;
+  requiresMapping: boolean;
+  confidence?: RowConfidence[]; // one per row, when the parser scores them
 }
\ No newline at end of file
@@ -1,7 +1,26 @@
+import fs from 'fs';
 import path from 'path';
-import { defineConfig, loadEnv } from 'vite';
+import { createHash } from 'crypto';
+import { defineConfig, loadEnv, Plugin } from 'vite';
 import react from '@vitejs/plugin-react';
 
+// Files copied from public/ that the service worker must also cache
+const PUBLIC_ASSETS = ['manifest.webmanifest', 'icon-192.png', 'icon-512.png'];
+
+// Emits sw.js with the list of built files, so the whole app (pdf.js worker included) works offline
+const serviceWorker = (): Plugin => ({
+  name: 'service-worker',
+  apply: 'build',
+  generateBundle(_, bundle) {
+    const files = [...Object.keys(bundle), ...PUBLIC_ASSETS].filter(f => f !== 'index.html' && !f.endsWith('.map')).sort();
+    const version = createHash('sha256').update(files.join('\n')).digest('hex').slice(0, 12);
+    const source = fs.readFileSync(path.resolve(__dirname, 'serviceWorker.js'), 'utf-8')
+      .replace('self.__PRECACHE__', JSON.stringify(files))
+      .replace('self.__CACHE_NAME__', JSON.stringify(`ankidrug-${version}`));
+    this.emitFile({ type: 'asset', fileName: 'sw.js', source });
+  },
+});
+
 export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
     return {
@@ -9,7 +28,7 @@ export default defineConfig(({ mode }) => {
         port: 3000,
         host: '0.0.0.0',
       },
-      plugins: [react()],
+      plugins: [react(), serviceWorker()],
       define: {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
         'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)